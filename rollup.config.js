@@ -41,8 +41,10 @@ export default [
       'src/index.ts',
       'src/react/index.ts',
       'src/express/index.ts',
+      'src/loopback/index.ts',
       'src/nextjs/index.ts',
       'src/nextjs/react.tsx',
+      'src/codegen/cli.ts',
     ],
     plugins: [
       typescript({
@@ -67,6 +69,7 @@ export default [
       'src/index.ts',
       'src/react/index.ts',
       'src/express/index.ts',
+      'src/loopback/index.ts',
       'src/nextjs/index.ts',
       'src/nextjs/react.tsx',
     ],
@@ -4,13 +4,29 @@
 import 'jest-location-mock';
 
 import crypto from 'crypto';
-import { TextEncoder } from 'util';
+import { TextDecoder, TextEncoder } from 'util';
 
 import {
   FiefAuth,
   FiefAuthAuthorizeError,
+  FiefAuthExpiredError,
+  FiefAuthIndexedDBStorage,
+  FiefAuthInteractionRequiredError,
+  FiefAuthInvalidStateError,
+  FiefAuthLocalStorage,
+  FiefAuthMemoryStorage,
   FiefAuthNotAuthenticatedError,
+  FiefAuthorizationState,
+  FiefAuthPopupBlockedError,
+  FiefAuthPopupClosedError,
+  FiefAuthPopupTimeoutError,
+  FiefAuthSilentLoginTimeoutError,
+  FiefAuthStorage,
+  FiefAuthSyncMessage,
+  FiefAuthTokenInfo,
   IFiefAuthStorage,
+  popupLoginCallback,
+  silentLoginCallback,
 } from './browser';
 import type { Fief, FiefTokenResponse, FiefUserInfo } from './client';
 
@@ -23,6 +39,10 @@ Object.defineProperty(global, 'TextEncoder', {
   value: TextEncoder,
 });
 
+Object.defineProperty(global, 'TextDecoder', {
+  value: TextDecoder,
+});
+
 class MockAuthStorage implements IFiefAuthStorage {
   private storage: Record<string, string>;
 
@@ -32,6 +52,10 @@ class MockAuthStorage implements IFiefAuthStorage {
 
   private static readonly CODE_VERIFIER_STORAGE_KEY = 'fief-codeverifier';
 
+  private static readonly NONCE_STORAGE_KEY = 'fief-nonce';
+
+  private static readonly STATE_STORAGE_KEY = 'fief-state';
+
   constructor() {
     this.storage = {};
   }
@@ -52,7 +76,7 @@ class MockAuthStorage implements IFiefAuthStorage {
     delete this.storage[MockAuthStorage.USERINFO_STORAGE_KEY];
   }
 
-  public getTokenInfo(): FiefTokenResponse | null {
+  public getTokenInfo(): FiefAuthTokenInfo | null {
     const value = this.storage[MockAuthStorage.TOKEN_INFO_STORAGE_KEY];
     if (!value) {
       return null;
@@ -60,7 +84,7 @@ class MockAuthStorage implements IFiefAuthStorage {
     return JSON.parse(value);
   }
 
-  public setTokenInfo(tokenInfo: FiefTokenResponse): void {
+  public setTokenInfo(tokenInfo: FiefAuthTokenInfo): void {
     this.storage[MockAuthStorage.TOKEN_INFO_STORAGE_KEY] = JSON.stringify(tokenInfo);
   }
 
@@ -84,6 +108,38 @@ class MockAuthStorage implements IFiefAuthStorage {
     delete this.storage[MockAuthStorage.CODE_VERIFIER_STORAGE_KEY];
   }
 
+  public getNonce(): string | null {
+    const value = this.storage[MockAuthStorage.NONCE_STORAGE_KEY];
+    if (!value) {
+      return null;
+    }
+    return value;
+  }
+
+  public setNonce(nonce: string): void {
+    this.storage[MockAuthStorage.NONCE_STORAGE_KEY] = nonce;
+  }
+
+  public clearNonce(): void {
+    delete this.storage[MockAuthStorage.NONCE_STORAGE_KEY];
+  }
+
+  public getState(): FiefAuthorizationState | null {
+    const value = this.storage[MockAuthStorage.STATE_STORAGE_KEY];
+    if (!value) {
+      return null;
+    }
+    return JSON.parse(value);
+  }
+
+  public setState(state: FiefAuthorizationState): void {
+    this.storage[MockAuthStorage.STATE_STORAGE_KEY] = JSON.stringify(state);
+  }
+
+  public clearState(): void {
+    delete this.storage[MockAuthStorage.STATE_STORAGE_KEY];
+  }
+
   public clear(): void {
     this.storage = {};
   }
@@ -96,12 +152,17 @@ const tokenInfo: FiefTokenResponse = {
   token_type: 'bearer',
 };
 const authCallbackMock = jest.fn(() => [tokenInfo, { sub: 'USER_ID' }]);
+const getAuthURLMock = jest.fn(() => 'https://bretagne.fief.dev/authorize');
+const revokeTokenMock = jest.fn();
+const authRefreshTokenMock = jest.fn();
 // @ts-ignore
 const fiefMock = jest.fn<Fief, any>(() => ({
-  getAuthURL: () => 'https://bretagne.fief.dev/authorize',
+  getAuthURL: getAuthURLMock,
   getLogoutURL: () => 'https://bretagne.fief.dev/logout',
   authCallback: authCallbackMock,
+  authRefreshToken: authRefreshTokenMock,
   userinfo: () => ({ sub: 'REFRESHED_USER_ID' }),
+  revokeToken: revokeTokenMock,
 }));
 const mockAuthStorage = new MockAuthStorage();
 const fiefAuth = new FiefAuth(fiefMock(), mockAuthStorage);
@@ -109,6 +170,13 @@ const fiefAuth = new FiefAuth(fiefMock(), mockAuthStorage);
 beforeEach(() => {
   mockAuthStorage.clear();
   authCallbackMock.mockClear();
+  getAuthURLMock.mockClear();
+  revokeTokenMock.mockReset();
+  authRefreshTokenMock.mockReset();
+  authRefreshTokenMock.mockResolvedValue([
+    { ...tokenInfo, access_token: 'REFRESHED_ACCESS_TOKEN' },
+    { sub: 'REFRESHED_USER_ID' },
+  ]);
 });
 
 describe('isAuthenticated', () => {
@@ -120,6 +188,155 @@ describe('isAuthenticated', () => {
     mockAuthStorage.setTokenInfo(tokenInfo);
     expect(fiefAuth.isAuthenticated()).toBeTruthy();
   });
+
+  it('should return false if access token is expired', () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, expires_at: Date.now() / 1000 - 1 });
+    expect(fiefAuth.isAuthenticated()).toBeFalsy();
+  });
+});
+
+describe('getStatus', () => {
+  it.each([
+    [null, 'unauthenticated'],
+    [{ ...tokenInfo }, 'authenticated'],
+    [{ ...tokenInfo, expires_at: Date.now() / 1000 + 3600 }, 'authenticated'],
+    [{ ...tokenInfo, expires_at: Date.now() / 1000 - 1 }, 'expired'],
+  ])('should return the status for %p', (storedTokenInfo, status) => {
+    if (storedTokenInfo !== null) {
+      mockAuthStorage.setTokenInfo(storedTokenInfo);
+    }
+    expect(fiefAuth.getStatus()).toBe(status);
+  });
+});
+
+describe('getAccessToken', () => {
+  it('should throw an error if no token info', async () => {
+    await expect(fiefAuth.getAccessToken()).rejects.toBeInstanceOf(FiefAuthNotAuthenticatedError);
+  });
+
+  it('should return the access token if not near expiry', async () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, expires_at: Date.now() / 1000 + 3600 });
+
+    expect(await fiefAuth.getAccessToken()).toBe('ACCESS_TOKEN');
+    expect(authRefreshTokenMock).not.toHaveBeenCalled();
+  });
+
+  it('should refresh the access token near expiry', async () => {
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 + 30,
+    });
+
+    const [accessToken1, accessToken2] = await Promise.all([
+      fiefAuth.getAccessToken(),
+      fiefAuth.getAccessToken(),
+    ]);
+
+    expect(accessToken1).toBe('REFRESHED_ACCESS_TOKEN');
+    expect(accessToken2).toBe('REFRESHED_ACCESS_TOKEN');
+    expect(authRefreshTokenMock).toHaveBeenCalledTimes(1);
+    expect(authRefreshTokenMock).toHaveBeenCalledWith('REFRESH_TOKEN');
+
+    const storedTokenInfo = mockAuthStorage.getTokenInfo();
+    expect(storedTokenInfo?.access_token).toBe('REFRESHED_ACCESS_TOKEN');
+    expect(storedTokenInfo?.refresh_token).toBe('REFRESH_TOKEN');
+    expect(storedTokenInfo?.expires_at).toBeGreaterThan(Date.now() / 1000 + 3500);
+    expect(mockAuthStorage.getUserinfo()).toStrictEqual({ sub: 'REFRESHED_USER_ID' });
+  });
+
+  it('should return the current access token if refresh fails before expiry', async () => {
+    authRefreshTokenMock.mockRejectedValue(new Error('Refresh error'));
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 + 30,
+    });
+
+    expect(await fiefAuth.getAccessToken()).toBe('ACCESS_TOKEN');
+  });
+
+  it('should throw FiefAuthExpiredError if refresh fails after expiry', async () => {
+    authRefreshTokenMock.mockRejectedValue(new Error('Refresh error'));
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 - 1,
+    });
+
+    await expect(fiefAuth.getAccessToken()).rejects.toBeInstanceOf(FiefAuthExpiredError);
+    expect(fiefAuth.getStatus()).toBe('expired');
+  });
+
+  it('should throw FiefAuthExpiredError if expired without refresh token', async () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, expires_at: Date.now() / 1000 - 1 });
+
+    await expect(fiefAuth.getAccessToken()).rejects.toBeInstanceOf(FiefAuthExpiredError);
+    expect(authRefreshTokenMock).not.toHaveBeenCalled();
+  });
+
+  it('should refresh after a previous attempt failed without refresh token', async () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, expires_at: Date.now() / 1000 - 1 });
+    await expect(fiefAuth.getAccessToken()).rejects.toBeInstanceOf(FiefAuthExpiredError);
+
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 - 1,
+    });
+
+    expect(await fiefAuth.getAccessToken()).toBe('REFRESHED_ACCESS_TOKEN');
+  });
+});
+
+describe('auto refresh', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should refresh the access token in the background before expiry', async () => {
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 + 3600,
+    });
+    const autoRefreshFiefAuth = new FiefAuth(fiefMock(), mockAuthStorage, { autoRefresh: true });
+
+    await jest.advanceTimersByTimeAsync(3500 * 1000);
+    expect(authRefreshTokenMock).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100 * 1000);
+    expect(authRefreshTokenMock).toHaveBeenCalledTimes(1);
+    expect(mockAuthStorage.getTokenInfo()?.access_token).toBe('REFRESHED_ACCESS_TOKEN');
+
+    autoRefreshFiefAuth.stopAutoRefresh();
+    await jest.advanceTimersByTimeAsync(3600 * 1000);
+    expect(authRefreshTokenMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call onRefreshError if the background refresh fails', async () => {
+    authRefreshTokenMock.mockRejectedValue(new Error('Refresh error'));
+    const onRefreshError = jest.fn();
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 + 3600,
+    });
+    const autoRefreshFiefAuth = new FiefAuth(
+      fiefMock(),
+      mockAuthStorage,
+      { autoRefresh: true, onRefreshError },
+    );
+
+    await jest.advanceTimersByTimeAsync(3600 * 1000);
+    expect(onRefreshError).toHaveBeenCalledWith(new Error('Refresh error'));
+    expect(authRefreshTokenMock).toHaveBeenCalledTimes(1);
+    expect(autoRefreshFiefAuth.getStatus()).toBe('expired');
+  });
 });
 
 describe('getUserinfo', () => {
@@ -160,6 +377,28 @@ describe('redirectToLogin', () => {
     expect(window.location).toBeAt('https://bretagne.fief.dev/authorize');
     expect(mockAuthStorage.getCodeVerifier()).not.toBeNull();
   });
+
+  it('should generate a nonce and store it in storage', async () => {
+    await fiefAuth.redirectToLogin('https://www.bretagne.duchy/callback');
+    const nonce = mockAuthStorage.getNonce();
+    expect(nonce).not.toBeNull();
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ nonce }));
+  });
+
+  it('should generate a random state and store it in storage with the payload', async () => {
+    await fiefAuth.redirectToLogin('https://www.bretagne.duchy/callback', { state: '/return-to' });
+    const storedState = mockAuthStorage.getState();
+    expect(storedState?.payload).toEqual('/return-to');
+    expect(storedState?.state).not.toEqual('/return-to');
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({
+      state: storedState?.state,
+    }));
+  });
+
+  it('should pass the lang parameter without a state', async () => {
+    await fiefAuth.redirectToLogin('https://www.bretagne.duchy/callback', { lang: 'fr' });
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ lang: 'fr' }));
+  });
 });
 
 describe('authCallback', () => {
@@ -189,25 +428,395 @@ describe('authCallback', () => {
     }
   });
 
+  it('should throw an error if state is missing in storage', async () => {
+    window.location.search = 'code=CODE&state=STATE';
+
+    expect.assertions(3);
+    try {
+      await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
+    } catch (err) {
+      expect(err).toBeInstanceOf(FiefAuthInvalidStateError);
+      expect((err as FiefAuthAuthorizeError).error).toBe('invalid_state');
+      expect(authCallbackMock).not.toHaveBeenCalled();
+    }
+  });
+
+  it('should throw an error if state does not match', async () => {
+    window.location.search = 'code=CODE&state=OTHER_STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: null });
+    mockAuthStorage.setCodeVerifier('CODE_VERIFIER');
+
+    expect.assertions(4);
+    try {
+      await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
+    } catch (err) {
+      expect(err).toBeInstanceOf(FiefAuthInvalidStateError);
+      expect(authCallbackMock).not.toHaveBeenCalled();
+      expect(mockAuthStorage.getState()).toBeNull();
+      expect(mockAuthStorage.getCodeVerifier()).toBeNull();
+    }
+  });
+
   it('should retrieve tokens and set them in storage', async () => {
-    window.location.search = 'code=CODE';
+    window.location.search = 'code=CODE&state=STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: null });
 
     await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
 
-    expect(mockAuthStorage.getTokenInfo()).toStrictEqual(tokenInfo);
+    expect(mockAuthStorage.getTokenInfo()).toStrictEqual({
+      ...tokenInfo,
+      expires_at: expect.any(Number),
+    });
     expect(mockAuthStorage.getUserinfo()).toStrictEqual({ sub: 'USER_ID' });
   });
 
+  it('should return the state payload and clear it afterwards', async () => {
+    window.location.search = 'code=CODE&state=STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: '/return-to' });
+
+    const payload = await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
+
+    expect(payload).toEqual('/return-to');
+    expect(mockAuthStorage.getState()).toBeNull();
+  });
+
   it('should put code_verifier in payload if present in storage and clear it afterwards', async () => {
-    window.location.search = 'code=CODE';
+    window.location.search = 'code=CODE&state=STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: null });
     mockAuthStorage.setCodeVerifier('CODE_VERIFIER');
 
     await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
 
-    expect(authCallbackMock).toHaveBeenCalledWith('CODE', 'https://www.bretagne.duchy/callback', 'CODE_VERIFIER');
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', 'https://www.bretagne.duchy/callback', 'CODE_VERIFIER', undefined);
 
     expect(mockAuthStorage.getCodeVerifier()).toBeNull();
   });
+
+  it('should pass nonce if present in storage and clear it afterwards', async () => {
+    window.location.search = 'code=CODE&state=STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: null });
+    mockAuthStorage.setNonce('NONCE');
+
+    await fiefAuth.authCallback('https://www.bretagne.duchy/callback');
+
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', 'https://www.bretagne.duchy/callback', undefined, 'NONCE');
+
+    expect(mockAuthStorage.getNonce()).toBeNull();
+  });
+
+  it('should keep the nonce in sessionStorage if the storage does not implement it', async () => {
+    const storage = new MockAuthStorage();
+    const otherFiefAuth = new FiefAuth(fiefMock(), Object.assign(storage, {
+      getNonce: undefined,
+      setNonce: undefined,
+      clearNonce: undefined,
+    }));
+
+    await otherFiefAuth.redirectToLogin('https://www.bretagne.duchy/callback');
+    const nonce = window.sessionStorage.getItem('fief-nonce');
+    expect(nonce).not.toBeNull();
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ nonce }));
+
+    window.location.search = `code=CODE&state=${storage.getState()?.state}`;
+    await otherFiefAuth.authCallback('https://www.bretagne.duchy/callback');
+
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', 'https://www.bretagne.duchy/callback', expect.any(String), nonce);
+    expect(window.sessionStorage.getItem('fief-nonce')).toBeNull();
+  });
+
+  it('should keep the state in sessionStorage if the storage does not implement it', async () => {
+    const otherFiefAuth = new FiefAuth(fiefMock(), Object.assign(new MockAuthStorage(), {
+      getState: undefined,
+      setState: undefined,
+      clearState: undefined,
+    }));
+
+    await otherFiefAuth.redirectToLogin('https://www.bretagne.duchy/callback', { state: '/return-to' });
+    const storedState = window.sessionStorage.getItem('fief-state');
+    expect(storedState).not.toBeNull();
+    const { state } = JSON.parse(storedState as string);
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ state }));
+
+    window.location.search = `code=CODE&state=${state}`;
+    const payload = await otherFiefAuth.authCallback('https://www.bretagne.duchy/callback');
+
+    expect(payload).toEqual('/return-to');
+    expect(window.sessionStorage.getItem('fief-state')).toBeNull();
+  });
+});
+
+describe('silentLogin', () => {
+  const redirectURI = 'https://www.bretagne.duchy/silent-callback';
+
+  const waitForIframe = async (): Promise<HTMLIFrameElement> => {
+    for (;;) {
+      const iframe = document.querySelector('iframe');
+      if (iframe !== null) {
+        return iframe;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => { setTimeout(resolve, 0); });
+    }
+  };
+
+  const postCallback = (iframe: HTMLIFrameElement, query: string, origin = 'https://www.bretagne.duchy') => {
+    window.dispatchEvent(new MessageEvent('message', {
+      origin,
+      source: iframe.contentWindow,
+      data: { type: 'fief:silent-callback', url: `${redirectURI}?${query}` },
+    }));
+  };
+
+  const getState = (): string => {
+    const [[parameters]] = getAuthURLMock.mock.calls as any[];
+    return parameters.state;
+  };
+
+  it('should request authorization with prompt=none in a hidden iframe', async () => {
+    const promise = fiefAuth.silentLogin(redirectURI, { extrasParams: { lang: 'fr' } });
+    const iframe = await waitForIframe();
+
+    expect(iframe.style.display).toBe('none');
+    expect(iframe.src).toBe('https://bretagne.fief.dev/authorize');
+    expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({
+      redirectURI,
+      scope: ['openid'],
+      codeChallengeMethod: 'S256',
+      extrasParams: { lang: 'fr', prompt: 'none' },
+    }));
+
+    postCallback(iframe, `code=CODE&state=${getState()}`);
+    const userinfo = await promise;
+
+    expect(userinfo).toStrictEqual({ sub: 'USER_ID' });
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', redirectURI, expect.any(String), expect.any(String));
+    expect(mockAuthStorage.getTokenInfo()).toStrictEqual({
+      ...tokenInfo,
+      expires_at: expect.any(Number),
+    });
+    expect(mockAuthStorage.getUserinfo()).toStrictEqual({ sub: 'USER_ID' });
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('should ignore messages from other origins', async () => {
+    const promise = fiefAuth.silentLogin(redirectURI);
+    const iframe = await waitForIframe();
+
+    postCallback(iframe, 'code=CODE&state=STATE', 'https://www.france.kingdom');
+    postCallback(iframe, `code=CODE&state=${getState()}`);
+    await promise;
+
+    expect(authCallbackMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    'login_required',
+    'consent_required',
+    'interaction_required',
+  ])('should throw FiefAuthInteractionRequiredError on %s', async (error) => {
+    const promise = fiefAuth.silentLogin(redirectURI);
+    const iframe = await waitForIframe();
+
+    postCallback(iframe, `error=${error}&state=${getState()}`);
+
+    await expect(promise).rejects.toThrow(FiefAuthInteractionRequiredError);
+    expect(authCallbackMock).not.toHaveBeenCalled();
+    expect(mockAuthStorage.getTokenInfo()).toBeNull();
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('should throw FiefAuthAuthorizeError on other errors', async () => {
+    const promise = fiefAuth.silentLogin(redirectURI);
+    const iframe = await waitForIframe();
+
+    postCallback(iframe, 'error=invalid_request&error_description=An+error+occured');
+
+    expect.assertions(3);
+    try {
+      await promise;
+    } catch (err) {
+      expect(err).toBeInstanceOf(FiefAuthAuthorizeError);
+      expect(err).not.toBeInstanceOf(FiefAuthInteractionRequiredError);
+      expect((err as FiefAuthAuthorizeError).description).toBe('An error occured');
+    }
+  });
+
+  it('should throw an error if state does not match', async () => {
+    const promise = fiefAuth.silentLogin(redirectURI);
+    const iframe = await waitForIframe();
+
+    postCallback(iframe, 'code=CODE&state=OTHER_STATE');
+
+    await expect(promise).rejects.toThrow(FiefAuthInvalidStateError);
+    expect(authCallbackMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw FiefAuthSilentLoginTimeoutError if no answer', async () => {
+    const promise = fiefAuth.silentLogin(redirectURI, { timeout: 0.01 });
+
+    await expect(promise).rejects.toThrow(FiefAuthSilentLoginTimeoutError);
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+});
+
+describe('silentLoginCallback', () => {
+  it('should post the callback URL to the parent window', () => {
+    const postMessage = jest.fn();
+    const parentSpy = jest.spyOn(window, 'parent', 'get').mockReturnValue({ postMessage } as any);
+    window.location.search = 'code=CODE&state=STATE';
+
+    silentLoginCallback();
+
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: 'fief:silent-callback', url: window.location.href },
+      window.location.origin,
+    );
+    parentSpy.mockRestore();
+  });
+
+  it('should do nothing outside of an iframe', () => {
+    const postMessage = jest.spyOn(window, 'postMessage');
+
+    silentLoginCallback();
+
+    expect(postMessage).not.toHaveBeenCalled();
+    postMessage.mockRestore();
+  });
+});
+
+describe('loginWithPopup', () => {
+  const redirectURI = 'https://www.bretagne.duchy/popup-callback';
+
+  let popup: { closed: boolean, location: { href: string }, close: jest.Mock };
+  let openSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    popup = { closed: false, location: { href: '' }, close: jest.fn() };
+    openSpy = jest.spyOn(window, 'open').mockReturnValue(popup as unknown as Window);
+  });
+
+  afterEach(() => {
+    openSpy.mockRestore();
+  });
+
+  const waitForAuthorizeURL = async (): Promise<void> => {
+    while (popup.location.href === '') {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => { setTimeout(resolve, 0); });
+    }
+  };
+
+  // jsdom only accepts real windows as MessageEvent source
+  const postCallback = (query: string, origin = 'https://www.bretagne.duchy') => {
+    const event = Object.assign(new Event('message'), {
+      origin,
+      source: popup,
+      data: { type: 'fief:popup-callback', url: `${redirectURI}?${query}` },
+    });
+    window.dispatchEvent(event);
+  };
+
+  const getState = (): string => {
+    const [[parameters]] = getAuthURLMock.mock.calls as any[];
+    return parameters.state;
+  };
+
+  it('should throw FiefAuthPopupBlockedError if the popup is blocked', async () => {
+    openSpy.mockReturnValue(null);
+
+    await expect(fiefAuth.loginWithPopup(redirectURI)).rejects.toThrow(FiefAuthPopupBlockedError);
+    expect(getAuthURLMock).not.toHaveBeenCalled();
+  });
+
+  it('should open the authorization URL in a popup and complete the callback', async () => {
+    const promise = fiefAuth.loginWithPopup(redirectURI, { popupFeatures: 'popup' });
+    await waitForAuthorizeURL();
+
+    expect(openSpy).toHaveBeenCalledWith('', 'fief-login', 'popup');
+    expect(popup.location.href).toBe('https://bretagne.fief.dev/authorize');
+
+    postCallback('code=CODE&state=STATE', 'https://www.france.kingdom');
+    postCallback(`code=CODE&state=${getState()}`);
+    const userinfo = await promise;
+
+    expect(userinfo).toStrictEqual({ sub: 'USER_ID' });
+    expect(authCallbackMock).toHaveBeenCalledTimes(1);
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', redirectURI, expect.any(String), expect.any(String));
+    expect(mockAuthStorage.getTokenInfo()).toStrictEqual({
+      ...tokenInfo,
+      expires_at: expect.any(Number),
+    });
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('should not touch the storage of a redirect login', async () => {
+    const redirectState: FiefAuthorizationState = { state: 'REDIRECT_STATE', payload: '/return-to' };
+    mockAuthStorage.setState(redirectState);
+    mockAuthStorage.setCodeVerifier('REDIRECT_CODE_VERIFIER');
+    mockAuthStorage.setNonce('REDIRECT_NONCE');
+
+    const promise = fiefAuth.loginWithPopup(redirectURI);
+    await waitForAuthorizeURL();
+    popup.closed = true;
+    await expect(promise).rejects.toThrow(FiefAuthPopupClosedError);
+
+    expect(mockAuthStorage.getState()).toStrictEqual(redirectState);
+    expect(mockAuthStorage.getCodeVerifier()).toBe('REDIRECT_CODE_VERIFIER');
+    expect(mockAuthStorage.getNonce()).toBe('REDIRECT_NONCE');
+  });
+
+  it('should throw FiefAuthInvalidStateError if the state is not the expected one', async () => {
+    const promise = fiefAuth.loginWithPopup(redirectURI);
+    await waitForAuthorizeURL();
+
+    postCallback('code=CODE&state=STATE');
+
+    await expect(promise).rejects.toThrow(FiefAuthInvalidStateError);
+    expect(authCallbackMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw FiefAuthAuthorizeError on authorization error', async () => {
+    const promise = fiefAuth.loginWithPopup(redirectURI);
+    await waitForAuthorizeURL();
+
+    postCallback('error=access_denied');
+
+    await expect(promise).rejects.toThrow(FiefAuthAuthorizeError);
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('should throw FiefAuthPopupClosedError if the popup is closed', async () => {
+    const promise = fiefAuth.loginWithPopup(redirectURI);
+    await waitForAuthorizeURL();
+
+    popup.closed = true;
+
+    await expect(promise).rejects.toThrow(FiefAuthPopupClosedError);
+    expect(authCallbackMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw FiefAuthPopupTimeoutError if the user does not authenticate in time', async () => {
+    const promise = fiefAuth.loginWithPopup(redirectURI, { timeout: 0.01 });
+
+    await expect(promise).rejects.toThrow(FiefAuthPopupTimeoutError);
+    expect(authCallbackMock).not.toHaveBeenCalled();
+    expect(popup.close).toHaveBeenCalled();
+  });
+});
+
+describe('popupLoginCallback', () => {
+  it('should post the callback URL to the opener window', () => {
+    const postMessage = jest.fn();
+    window.opener = { postMessage };
+
+    popupLoginCallback();
+
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: 'fief:popup-callback', url: window.location.href },
+      window.location.origin,
+    );
+    window.opener = null;
+  });
 });
 
 describe('refreshUserinfo', () => {
@@ -237,5 +846,449 @@ describe('logout', () => {
     expect(window.location).toBeAt('https://bretagne.fief.dev/logout');
     expect(mockAuthStorage.getTokenInfo()).toBeNull();
     expect(mockAuthStorage.getUserinfo()).toBeNull();
+    expect(revokeTokenMock).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the refresh token if available', async () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, refresh_token: 'REFRESH_TOKEN' });
+
+    await fiefAuth.logout('https://www.bretagne.duchy');
+    expect(revokeTokenMock).toHaveBeenCalledWith('REFRESH_TOKEN', 'refresh_token');
+    expect(window.location).toBeAt('https://bretagne.fief.dev/logout');
+  });
+
+  it('should redirect to the logout URL even if revocation fails', async () => {
+    mockAuthStorage.setTokenInfo({ ...tokenInfo, refresh_token: 'REFRESH_TOKEN' });
+    revokeTokenMock.mockRejectedValueOnce(new Error() as never);
+
+    await fiefAuth.logout('https://www.bretagne.duchy');
+    expect(window.location).toBeAt('https://bretagne.fief.dev/logout');
+    expect(mockAuthStorage.getTokenInfo()).toBeNull();
+  });
+});
+
+describe('cross-tab sync', () => {
+  type MessageHandler = ((event: { data: unknown }) => void) | null;
+  let broadcastChannels: { name: string, onmessage: MessageHandler }[] = [];
+  // Number of milliseconds before the messages are delivered, or `null` to deliver them right away
+  let deliveryDelay: number | null = null;
+
+  class MockBroadcastChannel {
+    public name: string;
+
+    public onmessage: MessageHandler = null;
+
+    constructor(name: string) {
+      this.name = name;
+      broadcastChannels.push(this);
+    }
+
+    public postMessage(data: unknown): void {
+      const deliver = () => broadcastChannels
+        .filter((channel) => channel !== this && channel.name === this.name)
+        .forEach((channel) => channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) }));
+      if (deliveryDelay === null) {
+        deliver();
+      } else {
+        setTimeout(deliver, deliveryDelay);
+      }
+    }
+
+    public close(): void {
+      broadcastChannels = broadcastChannels.filter((channel) => channel !== this);
+    }
+  }
+
+  const otherTabStorage = new MockAuthStorage();
+  const onSync = jest.fn();
+  let tabs: FiefAuth[];
+
+  const createTabs = () => {
+    tabs = [
+      new FiefAuth(fiefMock(), mockAuthStorage, { crossTabSync: true }),
+      new FiefAuth(fiefMock(), otherTabStorage, { crossTabSync: true, onSync }),
+    ];
+    return tabs;
+  };
+
+  beforeEach(() => {
+    otherTabStorage.clear();
+    onSync.mockClear();
+    Object.defineProperty(global, 'BroadcastChannel', { value: MockBroadcastChannel, configurable: true });
+  });
+
+  afterEach(() => {
+    tabs.forEach((tab) => tab.close());
+    // @ts-ignore
+    delete global.BroadcastChannel;
+    deliveryDelay = null;
+    window.localStorage.clear();
+  });
+
+  it('should propagate the login', async () => {
+    const [tab] = createTabs();
+    window.location.search = 'code=CODE&state=STATE';
+    mockAuthStorage.setState({ state: 'STATE', payload: null });
+
+    await tab.authCallback('https://www.bretagne.duchy/callback');
+
+    expect(otherTabStorage.getTokenInfo()).toStrictEqual(mockAuthStorage.getTokenInfo());
+    expect(otherTabStorage.getUserinfo()).toStrictEqual({ sub: 'USER_ID' });
+    expect(onSync).toHaveBeenCalledWith(expect.objectContaining({ type: 'login' }));
+  });
+
+  it('should propagate the logout', async () => {
+    const [tab, otherTab] = createTabs();
+    mockAuthStorage.setTokenInfo(tokenInfo);
+    otherTabStorage.setTokenInfo(tokenInfo);
+    otherTabStorage.setUserinfo({
+      sub: 'USER_ID',
+      email: 'anne@bretagne.duchy',
+      tenant_id: 'TENANT_ID',
+      fields: {},
+    });
+
+    await tab.logout('https://www.bretagne.duchy');
+
+    expect(otherTabStorage.getTokenInfo()).toBeNull();
+    expect(otherTabStorage.getUserinfo()).toBeNull();
+    expect(otherTab.isAuthenticated()).toBe(false);
+    expect(onSync).toHaveBeenCalledWith({ type: 'logout' });
+  });
+
+  it('should propagate the token refresh and the userinfo', async () => {
+    const [tab] = createTabs();
+    mockAuthStorage.setTokenInfo({
+      ...tokenInfo,
+      refresh_token: 'REFRESH_TOKEN',
+      expires_at: Date.now() / 1000 + 30,
+    });
+
+    await tab.getAccessToken();
+    expect(otherTabStorage.getTokenInfo()?.access_token).toBe('REFRESHED_ACCESS_TOKEN');
+    expect(otherTabStorage.getUserinfo()).toStrictEqual({ sub: 'REFRESHED_USER_ID' });
+
+    otherTabStorage.clearUserinfo();
+    await tab.refreshUserinfo();
+    expect(otherTabStorage.getUserinfo()).toStrictEqual({ sub: 'REFRESHED_USER_ID' });
+    expect(onSync).toHaveBeenCalledWith(expect.objectContaining({ type: 'userinfo' }));
+  });
+
+  it('should use storage events if BroadcastChannel is not supported', async () => {
+    // @ts-ignore
+    delete global.BroadcastChannel;
+    const [tab] = createTabs();
+    const setItemSpy = jest.spyOn(Storage.prototype, 'setItem');
+    mockAuthStorage.setTokenInfo(tokenInfo);
+    otherTabStorage.setTokenInfo(tokenInfo);
+
+    await tab.logout('https://www.bretagne.duchy');
+
+    const message: FiefAuthSyncMessage = { type: 'logout' };
+    expect(setItemSpy).toHaveBeenCalledWith('fief', JSON.stringify(message));
+    expect(window.localStorage.getItem('fief')).toBeNull();
+    setItemSpy.mockRestore();
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'fief', newValue: JSON.stringify(message) }));
+    expect(otherTabStorage.getTokenInfo()).toBeNull();
+    expect(onSync).toHaveBeenCalledWith(message);
+  });
+
+  it('should not write the tokens in localStorage with storage events', async () => {
+    // @ts-ignore
+    delete global.BroadcastChannel;
+    const sharedOnSync = jest.fn();
+    const localStorage = new FiefAuthLocalStorage();
+    tabs = [
+      new FiefAuth(fiefMock(), localStorage, { crossTabSync: true }),
+      new FiefAuth(
+        fiefMock(),
+        new FiefAuthLocalStorage(),
+        { crossTabSync: true, onSync: sharedOnSync },
+      ),
+      new FiefAuth(fiefMock(), otherTabStorage, { crossTabSync: true, onSync }),
+    ];
+    const [tab] = tabs;
+    otherTabStorage.setTokenInfo(tokenInfo);
+    const setItemSpy = jest.spyOn(Storage.prototype, 'setItem');
+    window.location.search = 'code=CODE&state=STATE';
+    localStorage.setState({ state: 'STATE', payload: null });
+
+    await tab.authCallback('https://www.bretagne.duchy/callback');
+
+    const message = { type: 'login' };
+    expect(setItemSpy).toHaveBeenCalledWith('fief', JSON.stringify(message));
+    setItemSpy.mockRestore();
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'fief', newValue: JSON.stringify(message) }));
+    expect(sharedOnSync).toHaveBeenCalledWith({
+      type: 'login',
+      tokenInfo: localStorage.getTokenInfo(),
+      userinfo: { sub: 'USER_ID' },
+    });
+    // The session of a tab with its own storage can't be read back
+    expect(otherTabStorage.getTokenInfo()).toStrictEqual(tokenInfo);
+    expect(onSync).not.toHaveBeenCalled();
+  });
+
+  describe('refresh lock', () => {
+    const requestMock = jest.fn((_name: string, callback: () => Promise<unknown>) => callback());
+
+    beforeEach(() => {
+      requestMock.mockClear();
+      Object.defineProperty(window.navigator, 'locks', { value: { request: requestMock }, configurable: true });
+    });
+
+    afterEach(() => {
+      // @ts-ignore
+      delete window.navigator.locks;
+    });
+
+    it('should refresh while holding the lock', async () => {
+      const [tab] = createTabs();
+      mockAuthStorage.setTokenInfo({
+        ...tokenInfo,
+        refresh_token: 'REFRESH_TOKEN',
+        expires_at: Date.now() / 1000 + 30,
+      });
+
+      expect(await tab.getAccessToken()).toBe('REFRESHED_ACCESS_TOKEN');
+      expect(requestMock).toHaveBeenCalledWith('fief:refresh', expect.any(Function));
+    });
+
+    it('should not refresh again if another tab refreshed while waiting for the lock', async () => {
+      const [tab] = createTabs();
+      mockAuthStorage.setTokenInfo({
+        ...tokenInfo,
+        refresh_token: 'REFRESH_TOKEN',
+        expires_at: Date.now() / 1000 + 30,
+      });
+      requestMock.mockImplementationOnce((_name, callback) => {
+        mockAuthStorage.setTokenInfo({
+          ...tokenInfo,
+          access_token: 'OTHER_TAB_ACCESS_TOKEN',
+          refresh_token: 'ROTATED_REFRESH_TOKEN',
+          expires_at: Date.now() / 1000 + 3600,
+        });
+        return callback();
+      });
+
+      expect(await tab.getAccessToken()).toBe('OTHER_TAB_ACCESS_TOKEN');
+      expect(authRefreshTokenMock).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the tokens refreshed by another tab if received after the lock', async () => {
+      const [tab, otherTab] = createTabs();
+      const expiringTokenInfo = {
+        ...tokenInfo,
+        refresh_token: 'REFRESH_TOKEN',
+        expires_at: Date.now() / 1000 + 30,
+      };
+      mockAuthStorage.setTokenInfo(expiringTokenInfo);
+      otherTabStorage.setTokenInfo(expiringTokenInfo);
+      // Hold the lock one tab at a time, like the browser does
+      let lock: Promise<unknown> = Promise.resolve();
+      const serializedRequest = (_name: string, callback: () => Promise<unknown>) => {
+        const result = lock.then(callback);
+        lock = result.catch(() => {});
+        return result;
+      };
+      requestMock
+        .mockImplementationOnce(serializedRequest)
+        .mockImplementationOnce(serializedRequest);
+      deliveryDelay = 200;
+
+      const [accessToken, otherAccessToken] = await Promise.all([
+        tab.getAccessToken(),
+        otherTab.getAccessToken(),
+      ]);
+
+      expect(accessToken).toBe('REFRESHED_ACCESS_TOKEN');
+      expect(otherAccessToken).toBe('REFRESHED_ACCESS_TOKEN');
+      expect(authRefreshTokenMock).toHaveBeenCalledTimes(1);
+      expect(window.localStorage.getItem('fief:spent-refresh-token')).not.toContain('REFRESH_TOKEN');
+    });
+  });
+});
+
+describe('storages', () => {
+  const userinfo: FiefUserInfo = {
+    sub: 'USER_ID',
+    email: 'anne@bretagne.duchy',
+    tenant_id: 'TENANT_ID',
+    fields: {},
+  };
+
+  afterEach(() => {
+    window.sessionStorage.clear();
+    window.localStorage.clear();
+  });
+
+  it.each([
+    ['FiefAuthStorage', () => new FiefAuthStorage()],
+    ['FiefAuthLocalStorage', () => new FiefAuthLocalStorage()],
+    ['FiefAuthMemoryStorage', () => new FiefAuthMemoryStorage()],
+  ])('%s should store and clear values', (_name, createStorage) => {
+    const storage = createStorage();
+
+    storage.setUserinfo(userinfo);
+    storage.setTokenInfo(tokenInfo);
+    storage.setCodeVerifier('CODE_VERIFIER');
+    storage.setNonce('NONCE');
+    storage.setState({ state: 'STATE', payload: '/return-to' });
+
+    expect(storage.getUserinfo()).toStrictEqual(userinfo);
+    expect(storage.getTokenInfo()).toStrictEqual(tokenInfo);
+    expect(storage.getCodeVerifier()).toBe('CODE_VERIFIER');
+    expect(storage.getNonce()).toBe('NONCE');
+    expect(storage.getState()).toStrictEqual({ state: 'STATE', payload: '/return-to' });
+
+    storage.clearUserinfo();
+    storage.clearTokeninfo();
+    storage.clearCodeVerifier();
+    storage.clearNonce();
+    storage.clearState();
+
+    expect(storage.getUserinfo()).toBeNull();
+    expect(storage.getTokenInfo()).toBeNull();
+    expect(storage.getCodeVerifier()).toBeNull();
+    expect(storage.getNonce()).toBeNull();
+    expect(storage.getState()).toBeNull();
+  });
+
+  it('should use the matching browser storage', () => {
+    new FiefAuthStorage().setNonce('SESSION_NONCE');
+    new FiefAuthLocalStorage().setNonce('LOCAL_NONCE');
+
+    expect(window.sessionStorage.getItem('fief-nonce')).toBe('SESSION_NONCE');
+    expect(window.localStorage.getItem('fief-nonce')).toBe('LOCAL_NONCE');
+  });
+
+  it('should isolate storages with a key prefix', () => {
+    const storage = new FiefAuthLocalStorage();
+    const otherStorage = new FiefAuthLocalStorage({ keyPrefix: 'other-' });
+
+    storage.setTokenInfo(tokenInfo);
+
+    expect(otherStorage.getTokenInfo()).toBeNull();
+    expect(window.localStorage.getItem('fief-tokeninfo')).toBe(JSON.stringify(tokenInfo));
+  });
+
+  describe('FiefAuthIndexedDBStorage', () => {
+    const databases = new Map<string, Map<string, unknown>>();
+
+    // Minimal IndexedDB implementation, resolving the requests asynchronously
+    const createRequest = (getResult: () => unknown) => {
+      const request: Record<string, any> = {};
+      setTimeout(() => {
+        try {
+          request.result = getResult();
+        } catch (err) {
+          request.error = err;
+          request.onerror?.();
+          return;
+        }
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    };
+
+    const mockIndexedDB = {
+      open: (name: string) => {
+        if (!databases.has(name)) {
+          databases.set(name, new Map());
+        }
+        const records = databases.get(name) as Map<string, unknown>;
+        const objectStore = {
+          get: (key: string) => createRequest(() => records.get(key)),
+          put: (value: unknown, key: string) => createRequest(() => records.set(key, value)),
+          add: (value: unknown, key: string) => createRequest(() => {
+            if (records.has(key)) {
+              throw new DOMException('Key already exists in the object store.', 'ConstraintError');
+            }
+            return records.set(key, value);
+          }),
+          delete: (key: string) => createRequest(() => records.delete(key)),
+        };
+        return createRequest(() => ({
+          createObjectStore: () => objectStore,
+          transaction: () => ({ objectStore: () => objectStore }),
+        }));
+      },
+    };
+
+    beforeEach(() => {
+      databases.clear();
+      Object.defineProperty(window, 'indexedDB', { value: mockIndexedDB, configurable: true });
+    });
+
+    afterEach(() => {
+      // @ts-ignore
+      delete window.indexedDB;
+    });
+
+    it('should persist encrypted values', async () => {
+      const storage = await FiefAuthIndexedDBStorage.open();
+      storage.setTokenInfo(tokenInfo);
+      storage.setUserinfo(userinfo);
+      expect(storage.getTokenInfo()).toStrictEqual(tokenInfo);
+      await storage.flush();
+
+      const records = databases.get('fief') as Map<string, any>;
+      expect(records.get('fief-key').type).toBe('secret');
+      expect(records.get('fief-key').extractable).toBe(false);
+      const encrypted = new TextDecoder().decode(records.get('fief-tokeninfo').data);
+      expect(encrypted).not.toContain('ACCESS_TOKEN');
+
+      const reopenedStorage = await FiefAuthIndexedDBStorage.open();
+      expect(reopenedStorage.getTokenInfo()).toStrictEqual(tokenInfo);
+      expect(reopenedStorage.getUserinfo()).toStrictEqual(userinfo);
+    });
+
+    it('should delete cleared values', async () => {
+      const storage = await FiefAuthIndexedDBStorage.open();
+      storage.setTokenInfo(tokenInfo);
+      storage.clearTokeninfo();
+      await storage.flush();
+
+      expect((databases.get('fief') as Map<string, unknown>).has('fief-tokeninfo')).toBe(false);
+      expect((await FiefAuthIndexedDBStorage.open()).getTokenInfo()).toBeNull();
+    });
+
+    it('should discard values that cannot be decrypted', async () => {
+      const storage = await FiefAuthIndexedDBStorage.open();
+      storage.setTokenInfo(tokenInfo);
+      await storage.flush();
+      (databases.get('fief') as Map<string, unknown>).delete('fief-key');
+
+      const reopenedStorage = await FiefAuthIndexedDBStorage.open();
+
+      expect(reopenedStorage.getTokenInfo()).toBeNull();
+      expect((databases.get('fief') as Map<string, unknown>).has('fief-tokeninfo')).toBe(false);
+    });
+
+    it('should share the same key when opened at the same time', async () => {
+      const [storage, otherStorage] = await Promise.all([
+        FiefAuthIndexedDBStorage.open(),
+        FiefAuthIndexedDBStorage.open(),
+      ]);
+      storage.setTokenInfo(tokenInfo);
+      otherStorage.setUserinfo(userinfo);
+      await Promise.all([storage.flush(), otherStorage.flush()]);
+
+      const reopenedStorage = await FiefAuthIndexedDBStorage.open();
+      expect(reopenedStorage.getTokenInfo()).toStrictEqual(tokenInfo);
+      expect(reopenedStorage.getUserinfo()).toStrictEqual(userinfo);
+    });
+
+    it('should isolate storages with a key prefix and a database name', async () => {
+      const storage = await FiefAuthIndexedDBStorage.open();
+      storage.setTokenInfo(tokenInfo);
+      await storage.flush();
+
+      expect((await FiefAuthIndexedDBStorage.open({ keyPrefix: 'other-' })).getTokenInfo()).toBeNull();
+      expect((await FiefAuthIndexedDBStorage.open({ databaseName: 'other' })).getTokenInfo()).toBeNull();
+    });
   });
 });
@@ -4,9 +4,118 @@
  * @module
  */
 
-import { Fief, FiefTokenResponse, FiefUserInfo } from './client';
+import {
+  Fief,
+  FiefTokenResponse,
+  FiefUserFields,
+  FiefUserInfo,
+} from './client';
 import { getCrypto, ICryptoHelper } from './crypto';
 
+/**
+ * State of an authorization request, kept in storage until the callback.
+ */
+export interface FiefAuthorizationState {
+  /**
+   * Random value sent in the `state` parameter of the authorization request.
+   *
+   * It's checked against the one returned in the callback to prevent CSRF attacks.
+   */
+  state: string;
+
+  /**
+   * Optional opaque value provided by the application,
+   * handed back after a successful callback.
+   */
+  payload: string | null;
+}
+
+/**
+ * Token information stored in the browser.
+ */
+export interface FiefAuthTokenInfo extends FiefTokenResponse {
+  /**
+   * Timestamp, in seconds, at which the access token expires.
+   *
+   * Computed from `expires_in` when the tokens are received.
+   */
+  expires_at?: number;
+}
+
+/**
+ * Status of the user session in the browser.
+ *
+ * * `unauthenticated`: there is no session.
+ * * `authenticated`: the access token is valid.
+ * * `expired`: the access token expired and couldn't be refreshed.
+ */
+export type FiefAuthStatus = 'unauthenticated' | 'authenticated' | 'expired';
+
+/**
+ * Message sent to the other browser tabs when the session changes.
+ */
+export type FiefAuthSyncMessage = (
+  { type: 'login', tokenInfo: FiefAuthTokenInfo, userinfo: FiefUserInfo } |
+  { type: 'refresh', tokenInfo: FiefAuthTokenInfo, userinfo: FiefUserInfo } |
+  { type: 'userinfo', userinfo: FiefUserInfo } |
+  { type: 'logout' }
+);
+
+/**
+ * Options of the {@link FiefAuth} browser helper.
+ */
+export interface FiefAuthOptions {
+  /**
+   * Whether to refresh the access token in the background before it expires,
+   * if a refresh token is available.
+   *
+   * Defaults to `false`.
+   */
+  autoRefresh?: boolean;
+
+  /**
+   * Number of seconds before the expiration of the access token
+   * from which it's refreshed.
+   *
+   * Defaults to `60`.
+   */
+  refreshLeeway?: number;
+
+  /**
+   * Optional callback called when the access token couldn't be refreshed in the background.
+   */
+  onRefreshError?: (err: unknown) => void;
+
+  /**
+   * Whether to synchronise the session between the browser tabs of the application.
+   *
+   * Login, logout, token refresh and user information changes are propagated to the other tabs
+   * through a `BroadcastChannel`, or `storage` events if not supported.
+   * The `storage` events don't carry the tokens, which would be written in plain text
+   * in `localStorage`: the other tabs read the session back from their storage.
+   * So with `storage` events, only the logout is propagated,
+   * unless the storage is a {@link FiefAuthLocalStorage}, shared between the tabs.
+   * The refresh of the access token is protected by a Web Lock, if supported,
+   * so only one tab uses the refresh token at a time.
+   *
+   * Defaults to `false`.
+   */
+  crossTabSync?: boolean;
+
+  /**
+   * Name of the channel, lock and storage key used for cross-tab synchronisation.
+   * Set a different one for each Fief client on the same origin.
+   *
+   * Defaults to `fief`.
+   */
+  syncName?: string;
+
+  /**
+   * Optional callback called when the session was updated by another tab.
+   */
+  onSync?: (message: FiefAuthSyncMessage) => void;
+}
+
 /**
  * Interface that should follow a class to implement storage for authentication data.
  */
@@ -31,14 +140,14 @@ export interface IFiefAuthStorage {
   /**
    * Retrieve current token information from storage, if available.
    */
-  getTokenInfo(): FiefTokenResponse | null;
+  getTokenInfo(): FiefAuthTokenInfo | null;
 
   /**
    * Store current token information in storage.
    *
    * @param tokenInfo - The token information to store.
    */
-  setTokenInfo(tokenInfo: FiefTokenResponse): void;
+  setTokenInfo(tokenInfo: FiefAuthTokenInfo): void;
 
   /**
    * Remove current token information from storage.
@@ -67,28 +176,127 @@ export interface IFiefAuthStorage {
    * @see [PKCE](https://docs.fief.dev/going-further/pkce/)
    */
   clearCodeVerifier(): void;
+
+  /**
+   * Optionally, retrieve OpenID Connect nonce from storage, if any.
+   *
+   * If the nonce methods are not implemented,
+   * {@link FiefAuth} keeps the nonce in `sessionStorage`.
+   */
+  getNonce?(): string | null;
+
+  /**
+   * Optionally, set an OpenID Connect nonce in storage.
+   *
+   * @param nonce - The nonce to store.
+   */
+  setNonce?(nonce: string): void;
+
+  /**
+   * Optionally, remove OpenID Connect nonce from storage.
+   */
+  clearNonce?(): void;
+
+  /**
+   * Optionally, retrieve authorization request state from storage, if any.
+   *
+   * If the state methods are not implemented,
+   * {@link FiefAuth} keeps the state in `sessionStorage`.
+   */
+  getState?(): FiefAuthorizationState | null;
+
+  /**
+   * Optionally, set an authorization request state in storage.
+   *
+   * @param state - The state to store.
+   */
+  setState?(state: FiefAuthorizationState): void;
+
+  /**
+   * Optionally, remove authorization request state from storage.
+   */
+  clearState?(): void;
+
+  /**
+   * Optionally, wait for the pending writes to be persisted.
+   *
+   * Called before navigating away from the page,
+   * for storages writing in the background.
+   */
+  flush?(): Promise<void>;
 }
 
 /**
- * Implementation of an authentication storage using standard browser `sessionStorage`.
- *
- * @see [Window.sessionStorage](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage)
+ * Nonce methods of an {@link IFiefAuthStorage}.
  */
-class FiefAuthStorage implements IFiefAuthStorage {
-  private storage: Storage;
+type FiefAuthNonceStorage = Required<
+  Pick<IFiefAuthStorage, 'getNonce' | 'setNonce' | 'clearNonce'>
+>;
 
-  private static readonly USERINFO_STORAGE_KEY = 'fief-userinfo';
+/**
+ * State methods of an {@link IFiefAuthStorage}.
+ */
+type FiefAuthStateStorage = Required<
+  Pick<IFiefAuthStorage, 'getState' | 'setState' | 'clearState'>
+>;
 
-  private static readonly TOKEN_INFO_STORAGE_KEY = 'fief-tokeninfo';
+/**
+ * Options of the {@link IFiefAuthStorage} implementations.
+ */
+export interface FiefAuthStorageOptions {
+  /**
+   * Prefix of the storage keys.
+   * Set a different one for each Fief client on the same origin.
+   *
+   * Defaults to `fief-`.
+   */
+  keyPrefix?: string;
+}
 
-  private static readonly CODE_VERIFIER_STORAGE_KEY = 'fief-codeverifier';
+/**
+ * Base class of the {@link IFiefAuthStorage} implementations
+ * backed by a key-value store.
+ */
+export abstract class FiefAuthKeyValueStorage implements IFiefAuthStorage {
+  private keyPrefix: string;
 
-  constructor() {
-    this.storage = window.sessionStorage;
+  private static readonly USERINFO_STORAGE_KEY = 'userinfo';
+
+  private static readonly TOKEN_INFO_STORAGE_KEY = 'tokeninfo';
+
+  private static readonly CODE_VERIFIER_STORAGE_KEY = 'codeverifier';
+
+  private static readonly NONCE_STORAGE_KEY = 'nonce';
+
+  private static readonly STATE_STORAGE_KEY = 'state';
+
+  protected static readonly STORAGE_KEYS = [
+    FiefAuthKeyValueStorage.USERINFO_STORAGE_KEY,
+    FiefAuthKeyValueStorage.TOKEN_INFO_STORAGE_KEY,
+    FiefAuthKeyValueStorage.CODE_VERIFIER_STORAGE_KEY,
+    FiefAuthKeyValueStorage.NONCE_STORAGE_KEY,
+    FiefAuthKeyValueStorage.STATE_STORAGE_KEY,
+  ];
+
+  /**
+   * @param options - Optional {@link FiefAuthStorageOptions}.
+   */
+  constructor(options: FiefAuthStorageOptions = {}) {
+    this.keyPrefix = options.keyPrefix !== undefined ? options.keyPrefix : 'fief-';
+  }
+
+  protected abstract getItem(key: string): string | null;
+
+  protected abstract setItem(key: string, value: string): void;
+
+  protected abstract removeItem(key: string): void;
+
+  protected getKey(key: string): string {
+    return `${this.keyPrefix}${key}`;
   }
 
   public getUserinfo(): FiefUserInfo | null {
-    const value = this.storage.getItem(FiefAuthStorage.USERINFO_STORAGE_KEY);
+    const value = this.getItem(this.getKey(FiefAuthKeyValueStorage.USERINFO_STORAGE_KEY));
     if (!value) {
       return null;
     }
@@ -96,31 +304,37 @@ class FiefAuthStorage implements IFiefAuthStorage {
   }
 
   public setUserinfo(userinfo: Record<string, any>): void {
-    this.storage.setItem(FiefAuthStorage.USERINFO_STORAGE_KEY, JSON.stringify(userinfo));
+    this.setItem(
+      this.getKey(FiefAuthKeyValueStorage.USERINFO_STORAGE_KEY),
+      JSON.stringify(userinfo),
+    );
   }
 
   public clearUserinfo(): void {
-    this.storage.removeItem(FiefAuthStorage.USERINFO_STORAGE_KEY);
+    this.removeItem(this.getKey(FiefAuthKeyValueStorage.USERINFO_STORAGE_KEY));
   }
 
-  public getTokenInfo(): FiefTokenResponse | null {
-    const value = this.storage.getItem(FiefAuthStorage.TOKEN_INFO_STORAGE_KEY);
+  public getTokenInfo(): FiefAuthTokenInfo | null {
+    const value = this.getItem(this.getKey(FiefAuthKeyValueStorage.TOKEN_INFO_STORAGE_KEY));
     if (!value) {
       return null;
     }
     return JSON.parse(value);
   }
 
-  public setTokenInfo(tokenInfo: FiefTokenResponse): void {
-    this.storage.setItem(FiefAuthStorage.TOKEN_INFO_STORAGE_KEY, JSON.stringify(tokenInfo));
+  public setTokenInfo(tokenInfo: FiefAuthTokenInfo): void {
+    this.setItem(
+      this.getKey(FiefAuthKeyValueStorage.TOKEN_INFO_STORAGE_KEY),
+      JSON.stringify(tokenInfo),
+    );
   }
 
   public clearTokeninfo(): void {
-    this.storage.removeItem(FiefAuthStorage.TOKEN_INFO_STORAGE_KEY);
+    this.removeItem(this.getKey(FiefAuthKeyValueStorage.TOKEN_INFO_STORAGE_KEY));
   }
 
   public getCodeVerifier(): string | null {
-    const value = this.storage.getItem(FiefAuthStorage.CODE_VERIFIER_STORAGE_KEY);
+    const value = this.getItem(this.getKey(FiefAuthKeyValueStorage.CODE_VERIFIER_STORAGE_KEY));
     if (!value) {
       return null;
     }
@@ -128,11 +342,329 @@ class FiefAuthStorage implements IFiefAuthStorage {
   }
 
   public setCodeVerifier(code: string): void {
-    this.storage.setItem(FiefAuthStorage.CODE_VERIFIER_STORAGE_KEY, code);
+    this.setItem(this.getKey(FiefAuthKeyValueStorage.CODE_VERIFIER_STORAGE_KEY), code);
   }
 
   public clearCodeVerifier(): void {
-    this.storage.removeItem(FiefAuthStorage.CODE_VERIFIER_STORAGE_KEY);
+    this.removeItem(this.getKey(FiefAuthKeyValueStorage.CODE_VERIFIER_STORAGE_KEY));
+  }
+
+  public getNonce(): string | null {
+    const value = this.getItem(this.getKey(FiefAuthKeyValueStorage.NONCE_STORAGE_KEY));
+    if (!value) {
+      return null;
+    }
+    return value;
+  }
+
+  public setNonce(nonce: string): void {
+    this.setItem(this.getKey(FiefAuthKeyValueStorage.NONCE_STORAGE_KEY), nonce);
+  }
+
+  public clearNonce(): void {
+    this.removeItem(this.getKey(FiefAuthKeyValueStorage.NONCE_STORAGE_KEY));
+  }
+
+  public getState(): FiefAuthorizationState | null {
+    const value = this.getItem(this.getKey(FiefAuthKeyValueStorage.STATE_STORAGE_KEY));
+    if (!value) {
+      return null;
+    }
+    return JSON.parse(value);
+  }
+
+  public setState(state: FiefAuthorizationState): void {
+    this.setItem(
+      this.getKey(FiefAuthKeyValueStorage.STATE_STORAGE_KEY),
+      JSON.stringify(state),
+    );
+  }
+
+  public clearState(): void {
+    this.removeItem(this.getKey(FiefAuthKeyValueStorage.STATE_STORAGE_KEY));
+  }
+}
+
+/**
+ * Implementation of an authentication storage using standard browser `sessionStorage`.
+ *
+ * The session is lost when the tab is closed.
+ *
+ * @see [Window.sessionStorage](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage)
+ */
+export class FiefAuthStorage extends FiefAuthKeyValueStorage {
+  protected storage: Storage;
+
+  /**
+   * @param options - Optional {@link FiefAuthStorageOptions}.
+   */
+  constructor(options: FiefAuthStorageOptions = {}) {
+    super(options);
+    this.storage = window.sessionStorage;
+  }
+
+  protected getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  protected setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  protected removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Implementation of an authentication storage using standard browser `localStorage`.
+ *
+ * The session is kept when the browser is closed and shared between the tabs.
+ *
+ * @see [Window.localStorage](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage)
+ */
+export class FiefAuthLocalStorage extends FiefAuthStorage {
+  /**
+   * @param options - Optional {@link FiefAuthStorageOptions}.
+   */
+  constructor(options: FiefAuthStorageOptions = {}) {
+    super(options);
+    this.storage = window.localStorage;
+  }
+}
+
+/**
+ * Implementation of an authentication storage keeping the data in memory.
+ *
+ * The tokens are not reachable by other scripts through the browser storages,
+ * but the session is lost when the page is reloaded.
+ */
+export class FiefAuthMemoryStorage extends FiefAuthKeyValueStorage {
+  private values: Map<string, string>;
+
+  /**
+   * @param options - Optional {@link FiefAuthStorageOptions}.
+   */
+  constructor(options: FiefAuthStorageOptions = {}) {
+    super(options);
+    this.values = new Map();
+  }
+
+  protected getItem(key: string): string | null {
+    const value = this.values.get(key);
+    return value !== undefined ? value : null;
+  }
+
+  protected setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  protected removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Options of the {@link FiefAuthIndexedDBStorage}.
+ */
+export interface FiefAuthIndexedDBStorageOptions extends FiefAuthStorageOptions {
+  /**
+   * Name of the IndexedDB database.
+   *
+   * Defaults to `fief`.
+   */
+  databaseName?: string;
+}
+
+interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+const INDEXED_DB_STORE_NAME = 'auth';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise(
+  (resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  },
+);
+
+const getObjectStore = (
+  database: IDBDatabase,
+  mode: 'readonly' | 'readwrite',
+): IDBObjectStore => (
+  database.transaction(INDEXED_DB_STORE_NAME, mode).objectStore(INDEXED_DB_STORE_NAME)
+);
+
+/**
+ * Implementation of an authentication storage using IndexedDB,
+ * with values encrypted by a non-extractable WebCrypto key.
+ *
+ * The key is kept in the database, but can't be read by scripts:
+ * the values can only be decrypted in the browser from the same origin.
+ *
+ * Values are loaded in memory when the storage is opened
+ * and written to the database in the background.
+ * Use {@link FiefAuthIndexedDBStorage.open} to create it.
+ *
+ * @see [IndexedDB API](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API)
+ *
+ * @example
+ * ```ts
+ * const storage = await fief.browser.FiefAuthIndexedDBStorage.open();
+ * const fiefAuth = new fief.browser.FiefAuth(fiefClient, storage);
+ * ```
+ */
+export class FiefAuthIndexedDBStorage extends FiefAuthKeyValueStorage {
+  private database: IDBDatabase;
+
+  private cryptoKey: CryptoKey;
+
+  private values: Map<string, string>;
+
+  private writes: Promise<void>;
+
+  private constructor(
+    database: IDBDatabase,
+    cryptoKey: CryptoKey,
+    options: FiefAuthIndexedDBStorageOptions,
+  ) {
+    super(options);
+    this.database = database;
+    this.cryptoKey = cryptoKey;
+    this.values = new Map();
+    this.writes = Promise.resolve();
+  }
+
+  /**
+   * Open the IndexedDB database and load the stored values.
+   *
+   * The encryption key is generated on first use.
+   * Values that can't be decrypted are discarded.
+   *
+   * @param options - Optional {@link FiefAuthIndexedDBStorageOptions}.
+   *
+   * @returns The storage, ready to use.
+   */
+  public static async open(
+    options: FiefAuthIndexedDBStorageOptions = {},
+  ): Promise<FiefAuthIndexedDBStorage> {
+    const openRequest = window.indexedDB.open(
+      options.databaseName !== undefined ? options.databaseName : 'fief',
+      1,
+    );
+    openRequest.onupgradeneeded = () => {
+      openRequest.result.createObjectStore(INDEXED_DB_STORE_NAME);
+    };
+    const database = await requestToPromise(openRequest);
+
+    const keyPrefix = options.keyPrefix !== undefined ? options.keyPrefix : 'fief-';
+    const cryptoKey = await FiefAuthIndexedDBStorage.getCryptoKey(database, `${keyPrefix}key`);
+
+    const storage = new FiefAuthIndexedDBStorage(database, cryptoKey, options);
+    await storage.load();
+    return storage;
+  }
+
+  /**
+   * Return the encryption key stored in the database, or generate it.
+   *
+   * The key is generated outside of a transaction, which would be committed
+   * while waiting for WebCrypto. It's then added only if it doesn't exist yet,
+   * so two tabs opening the storage at the same time end up with the same key.
+   */
+  private static async getCryptoKey(database: IDBDatabase, name: string): Promise<CryptoKey> {
+    const storedKey: CryptoKey | undefined = await requestToPromise(
+      getObjectStore(database, 'readonly').get(name),
+    );
+    if (storedKey !== undefined) {
+      return storedKey;
+    }
+
+    const cryptoKey = await window.crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+    try {
+      await requestToPromise(getObjectStore(database, 'readwrite').add(cryptoKey, name));
+      return cryptoKey;
+    } catch (err) {
+      // Another tab added its key in the meantime
+      if (err instanceof DOMException && err.name === 'ConstraintError') {
+        return requestToPromise(getObjectStore(database, 'readonly').get(name));
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Wait for the pending writes to be persisted in the database.
+   *
+   * @throws The error of the last write, if it failed.
+   */
+  public async flush(): Promise<void> {
+    return this.writes;
+  }
+
+  protected getItem(key: string): string | null {
+    const value = this.values.get(key);
+    return value !== undefined ? value : null;
+  }
+
+  protected setItem(key: string, value: string): void {
+    this.values.set(key, value);
+    this.enqueueWrite(async () => {
+      const iv = window.crypto.getRandomValues(new Uint8Array(12));
+      const data = await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        this.cryptoKey,
+        new TextEncoder().encode(value),
+      );
+      const encryptedValue: EncryptedValue = { iv, data };
+      await requestToPromise(this.getObjectStore('readwrite').put(encryptedValue, key));
+    });
+  }
+
+  protected removeItem(key: string): void {
+    this.values.delete(key);
+    this.enqueueWrite(async () => {
+      await requestToPromise(this.getObjectStore('readwrite').delete(key));
+    });
+  }
+
+  private async load(): Promise<void> {
+    await Promise.all(FiefAuthKeyValueStorage.STORAGE_KEYS.map(async (name) => {
+      const key = this.getKey(name);
+      const encryptedValue: EncryptedValue | undefined = await requestToPromise(
+        this.getObjectStore('readonly').get(key),
+      );
+      if (encryptedValue === undefined) {
+        return;
+      }
+      try {
+        const data = await window.crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: encryptedValue.iv },
+          this.cryptoKey,
+          encryptedValue.data,
+        );
+        this.values.set(key, new TextDecoder().decode(data));
+      } catch (err) {
+        await requestToPromise(this.getObjectStore('readwrite').delete(key));
+      }
+    }));
+  }
+
+  /**
+   * Chain the writes, so they're applied in order.
+   */
+  private enqueueWrite(write: () => Promise<void>): void {
+    this.writes = this.writes.catch(() => {}).then(write);
+  }
+
+  private getObjectStore(mode: 'readonly' | 'readwrite'): IDBObjectStore {
+    return getObjectStore(this.database, mode);
   }
 }
 
@@ -150,8 +682,123 @@ export class FiefAuthAuthorizeError extends FiefAuthError {
   }
 }
 
+/**
+ * The `state` returned in the callback doesn't match the one of the authorization request.
+ */
+export class FiefAuthInvalidStateError extends FiefAuthAuthorizeError {
+  constructor() {
+    super('invalid_state');
+  }
+}
+
+/**
+ * The user needs to interact with the Fief server to authenticate,
+ * so the silent authentication failed.
+ *
+ * It happens with the `login_required`, `consent_required` or `interaction_required` errors.
+ */
+export class FiefAuthInteractionRequiredError extends FiefAuthAuthorizeError { }
+
+/**
+ * The silent authentication didn't complete before the timeout.
+ */
+export class FiefAuthSilentLoginTimeoutError extends FiefAuthAuthorizeError {
+  constructor() {
+    super('timeout');
+  }
+}
+
+/**
+ * The browser blocked the opening of the login popup.
+ */
+export class FiefAuthPopupBlockedError extends FiefAuthAuthorizeError {
+  constructor() {
+    super('popup_blocked');
+  }
+}
+
+/**
+ * The login popup was closed before the end of the authentication.
+ */
+export class FiefAuthPopupClosedError extends FiefAuthAuthorizeError {
+  constructor() {
+    super('popup_closed');
+  }
+}
+
+/**
+ * The popup authentication didn't complete before the timeout.
+ */
+export class FiefAuthPopupTimeoutError extends FiefAuthAuthorizeError {
+  constructor() {
+    super('timeout');
+  }
+}
+
 export class FiefAuthNotAuthenticatedError extends FiefAuthError { }
 
+/**
+ * The access token expired and couldn't be refreshed.
+ */
+export class FiefAuthExpiredError extends FiefAuthError { }
+
+const SILENT_CALLBACK_MESSAGE_TYPE = 'fief:silent-callback';
+
+const POPUP_CALLBACK_MESSAGE_TYPE = 'fief:popup-callback';
+
+const INTERACTION_REQUIRED_ERRORS = ['login_required', 'consent_required', 'interaction_required'];
+
+/**
+ * Complete a silent authentication started by {@link FiefAuth#silentLogin}.
+ *
+ * Call it in the page served at the redirect URI of the silent authentication.
+ * It sends the callback parameters to the parent window, which exchanges the authorization code.
+ *
+ * @example
+ * ```html
+ * <!-- silent-callback.html -->
+ * <script src="https://unpkg.com/@fief/fief/build/index.umd.js"></script>
+ * <script>
+ *     fief.browser.silentLoginCallback();
+ * </script>
+ * ```
+ */
+export const silentLoginCallback = (): void => {
+  if (window.parent === window) {
+    return;
+  }
+  window.parent.postMessage(
+    { type: SILENT_CALLBACK_MESSAGE_TYPE, url: window.location.href },
+    window.location.origin,
+  );
+};
+
+/**
+ * Complete a popup authentication started by {@link FiefAuth#loginWithPopup}.
+ *
+ * Call it in the page served at the redirect URI of the popup authentication.
+ * It sends the callback parameters to the opener window, which exchanges the authorization code
+ * and closes the popup.
+ *
+ * @example
+ * ```html
+ * <!-- popup-callback.html -->
+ * <script src="https://unpkg.com/@fief/fief/build/index.umd.js"></script>
+ * <script>
+ *     fief.browser.popupLoginCallback();
+ * </script>
+ * ```
+ */
+export const popupLoginCallback = (): void => {
+  if (window.opener === null) {
+    return;
+  }
+  window.opener.postMessage(
+    { type: POPUP_CALLBACK_MESSAGE_TYPE, url: window.location.href },
+    window.location.origin,
+  );
+};
+
 /**
  * Helper class to integrate Fief authentication in a browser application.
  *
@@ -164,8 +811,8 @@ export class FiefAuthNotAuthenticatedError extends FiefAuthError { }
  * const fiefAuth = new fief.browser.FiefAuth(fiefClient);
  * ```
  */
-export class FiefAuth {
-  private client: Fief;
+export class FiefAuth<F extends FiefUserFields = FiefUserFields> {
+  private client: Fief<F>;
 
   private storage: IFiefAuthStorage;
 
@@ -173,72 +820,228 @@ export class FiefAuth {
 
   private pendingAuthCallbacks: Set<string>;
 
+  private autoRefresh: boolean;
+
+  private refreshLeeway: number;
+
+  private onRefreshError: (err: unknown) => void;
+
+  private refreshRequest?: Promise<FiefAuthTokenInfo>;
+
+  private refreshTimeoutId?: ReturnType<typeof setTimeout>;
+
+  private crossTabSync: boolean;
+
+  private syncName: string;
+
+  private onSync: (message: FiefAuthSyncMessage) => void;
+
+  private syncChannel?: BroadcastChannel;
+
+  private syncStorageListener?: (event: StorageEvent) => void;
+
+  private fallbackStorage?: FiefAuthStorage;
+
+  /**
+   * @param client - Instance of a {@link Fief} client.
+   * @param storage - Optional instance of a {@link IFiefAuthStorage} class.
+   * Defaults to a {@link FiefAuthStorage}, using `sessionStorage`.
+   * @param options - Optional {@link FiefAuthOptions}.
+   */
+  constructor(client: Fief<F>, storage?: IFiefAuthStorage, options: FiefAuthOptions = {}) {
+    this.client = client;
+    if (storage !== undefined) {
+      this.storage = storage;
+    } else {
+      this.storage = new FiefAuthStorage();
+    }
+    this.crypto = getCrypto();
+    this.pendingAuthCallbacks = new Set();
+
+    this.autoRefresh = options.autoRefresh === true;
+    this.refreshLeeway = options.refreshLeeway !== undefined ? options.refreshLeeway : 60;
+    this.onRefreshError = options.onRefreshError ? options.onRefreshError : () => {};
+
+    this.crossTabSync = options.crossTabSync === true;
+    this.syncName = options.syncName !== undefined ? options.syncName : 'fief';
+    this.onSync = options.onSync ? options.onSync : () => {};
+
+    if (this.crossTabSync) {
+      this.startSync();
+    }
+
+    if (this.autoRefresh) {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Return whether there is a valid user session in the browser.
+   *
+   * @returns `true` if there is a valid user session, `false` otherwise.
+   *
+   * @example
+   * ```ts
+   * const isAuthenticated = fiefAuth.isAuthenticated();
+   * ```
+   */
+  public isAuthenticated(): boolean {
+    return this.getStatus() === 'authenticated';
+  }
+
+  /**
+   * Return the status of the user session in the browser.
+   *
+   * @returns The {@link FiefAuthStatus} of the session.
+   *
+   * @example
+   * ```ts
+   * if (fiefAuth.getStatus() === 'expired') {
+   *     fiefAuth.redirectToLogin('http://localhost:8080/callback.html');
+   * }
+   * ```
+   */
+  public getStatus(): FiefAuthStatus {
+    const tokenInfo = this.storage.getTokenInfo();
+    if (tokenInfo === null) {
+      return 'unauthenticated';
+    }
+    if (tokenInfo.expires_at !== undefined && tokenInfo.expires_at <= Date.now() / 1000) {
+      return 'expired';
+    }
+    return 'authenticated';
+  }
+
+  /**
+   * Return the user information object available in session, or `null` if no current session.
+   *
+   * @returns The user information, or null if not available.
+   *
+   * @example
+   * ```ts
+   * const userinfo = fiefAuth.getUserinfo();
+   * ````
+   */
+  public getUserinfo(): FiefUserInfo<F> | null {
+    return this.storage.getUserinfo() as FiefUserInfo<F> | null;
+  }
+
+  /**
+   * Return the token information object available in session, or `null` if no current session.
+   *
+   * @returns The token information, or null if not available.
+   *
+   * @example
+   * ```ts
+   * const tokenInfo = fiefAuth.getTokenInfo();
+   * ```
+   */
+  public getTokenInfo(): FiefAuthTokenInfo | null {
+    return this.storage.getTokenInfo();
+  }
+
   /**
-   * @param client - Instance of a {@link Fief} client.
+   * Return a valid access token.
+   *
+   * If the access token expires soon and a refresh token is available,
+   * it's refreshed first. Concurrent calls share the same refresh request.
+   *
+   * @returns A valid access token.
+   * @throws {@link FiefAuthNotAuthenticatedError} if there is no session.
+   * @throws {@link FiefAuthExpiredError} if the access token expired and couldn't be refreshed.
+   *
+   * @example
+   * ```ts
+   * const accessToken = await fiefAuth.getAccessToken();
+   * const response = await fetch('/api/castles', {
+   *     headers: { Authorization: `Bearer ${accessToken}` },
+   * });
+   * ```
    */
-  constructor(client: Fief, storage?: IFiefAuthStorage) {
-    this.client = client;
-    if (storage !== undefined) {
-      this.storage = storage;
-    } else {
-      this.storage = new FiefAuthStorage();
+  public async getAccessToken(): Promise<string> {
+    const tokenInfo = this.storage.getTokenInfo();
+    if (tokenInfo === null) {
+      throw new FiefAuthNotAuthenticatedError();
+    }
+
+    if (!this.shouldRefresh(tokenInfo)) {
+      return tokenInfo.access_token;
+    }
+
+    try {
+      const refreshedTokenInfo = await this.refresh();
+      return refreshedTokenInfo.access_token;
+    } catch (err) {
+      // The current access token can still be used until it actually expires
+      if (this.getStatus() === 'authenticated') {
+        return tokenInfo.access_token;
+      }
+      throw new FiefAuthExpiredError();
     }
-    this.crypto = getCrypto();
-    this.pendingAuthCallbacks = new Set();
   }
 
   /**
-   * Return whether there is a valid user session in the browser.
+   * Start refreshing the access token in the background before it expires.
    *
-   * @returns `true` if there is a valid user session, `false` otherwise.
+   * It's automatically started if the `autoRefresh` option is enabled.
    *
    * @example
    * ```ts
-   * const isAuthenticated = fiefAuth.isAuthenticated();
+   * fiefAuth.startAutoRefresh();
    * ```
    */
-  public isAuthenticated(): boolean {
-    return this.storage.getTokenInfo() !== null;
+  public startAutoRefresh(): void {
+    this.autoRefresh = true;
+    this.scheduleRefresh();
   }
 
   /**
-   * Return the user information object available in session, or `null` if no current session.
-   *
-   * @returns The user information, or null if not available.
+   * Stop refreshing the access token in the background.
    *
    * @example
    * ```ts
-   * const userinfo = fiefAuth.getUserinfo();
-   * ````
+   * fiefAuth.stopAutoRefresh();
+   * ```
    */
-  public getUserinfo(): FiefUserInfo | null {
-    return this.storage.getUserinfo();
+  public stopAutoRefresh(): void {
+    this.autoRefresh = false;
+    this.cancelScheduledRefresh();
   }
 
   /**
-   * Return the token information object available in session, or `null` if no current session.
+   * Stop the cross-tab synchronisation and the background refresh.
    *
-   * @returns The token information, or null if not available.
+   * Call it when the instance is not used anymore.
    *
    * @example
    * ```ts
-   * const tokenInfo = fiefAuth.getTokenInfo();
+   * fiefAuth.close();
    * ```
    */
-  public getTokenInfo(): FiefTokenResponse | null {
-    return this.storage.getTokenInfo();
+  public close(): void {
+    this.stopAutoRefresh();
+    if (this.syncChannel !== undefined) {
+      this.syncChannel.close();
+      this.syncChannel = undefined;
+    }
+    if (this.syncStorageListener !== undefined) {
+      window.removeEventListener('storage', this.syncStorageListener);
+      this.syncStorageListener = undefined;
+    }
   }
 
   /**
    * Start a Fief authorization process and perform the redirection.
    *
    * Under the hood, it automatically handles
-   * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/).
+   * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/),
+   * the OpenID Connect nonce and a random `state` to prevent CSRF attacks.
    *
    * @param redirectURI - Your callback URI where the user
    * will be redirected after Fief authentication.
    * @param parameters.state - Optional string that will be returned back
-   * in the callback parameters to allow you to retrieve state information.
+   * by {@link FiefAuth#authCallback} to allow you to retrieve state information,
+   * like the page to return to. It's kept in storage and never sent to Fief.
    * @param parameters.scope - Optional list of scopes to ask for. Defaults to `['openid']`.
    * @param parameters.lang - Optional parameter to set the user locale.
    * Should be a valid [RFC 3066](https://www.rfc-editor.org/rfc/rfc3066) language identifier, like `fr` or `pt-PT`.
@@ -268,15 +1071,23 @@ export class FiefAuth {
     const codeChallenge = await this.crypto.getCodeChallenge(codeVerifier, 'S256');
     this.storage.setCodeVerifier(codeVerifier);
 
+    const nonce = await this.crypto.generateNonce();
+    this.getNonceStorage().setNonce(nonce);
+
+    const state = await this.crypto.generateNonce();
+    this.getStateStorage().setState({ state, payload: parameters?.state || null });
+
     const authorizeURL = await this.client.getAuthURL({
       redirectURI,
       scope: parameters?.scope || ['openid'],
       codeChallenge,
       codeChallengeMethod: 'S256',
-      ...parameters?.state ? { state: parameters.state } : {},
-      ...parameters?.state ? { lang: parameters.lang } : {},
+      nonce,
+      state,
+      ...parameters?.lang ? { lang: parameters.lang } : {},
       ...parameters?.extrasParams ? { extrasParams: parameters.extrasParams } : {},
     });
+    await this.storage.flush?.();
     window.location.href = authorizeURL;
   }
 
@@ -286,15 +1097,121 @@ export class FiefAuth {
    * and store the tokens and user information in the browser session.
    *
    * Under the hood, it automatically handles
-   * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/).
+   * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/),
+   * the OpenID Connect nonce and the `state` check.
    *
    * @param redirectURI - The exact same `redirectURI` you passed to the authorization URL.
+   *
+   * @returns The `state` value passed to {@link FiefAuth#redirectToLogin}, if any.
+   * @throws {@link FiefAuthInvalidStateError} if the `state` is not the expected one.
+   *
+   * @example
+   * ```ts
+   * const returnTo = await fiefAuth.authCallback('http://localhost:8080/callback.html');
+   * window.location.href = returnTo || '/';
+   * ```
+   */
+  public async authCallback(redirectURI: string): Promise<string | null> {
+    return this.handleAuthCallback(redirectURI, window.location.search);
+  }
+
+  /**
+   * Start a Fief authorization process in a popup,
+   * so the current page and its state are kept.
+   *
+   * Under the hood, it automatically handles
+   * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/),
+   * the OpenID Connect nonce and a random `state` to prevent CSRF attacks.
+   *
+   * **Call it from a user interaction, like a click, so the browser doesn't block the popup.
+   * The redirect URI should serve a page calling {@link popupLoginCallback},
+   * on the same origin as the application.**
+   *
+   * @param redirectURI - URI of the popup callback page.
+   * @param parameters.scope - Optional list of scopes to ask for. Defaults to `['openid']`.
+   * @param parameters.lang - Optional parameter to set the user locale.
+   * Should be a valid [RFC 3066](https://www.rfc-editor.org/rfc/rfc3066) language identifier, like `fr` or `pt-PT`.
+   * @param parameters.extrasParams - Optional object containing [specific parameters](https://docs.fief.dev/going-further/authorize-url/).
+   * @param parameters.popupFeatures - Optional [window features](https://developer.mozilla.org/en-US/docs/Web/API/Window/open#windowfeatures) of the popup.
+   * Defaults to a 500x600 popup centered on the current window.
+   * @param parameters.timeout - Number of seconds to wait for the user to authenticate.
+   * Defaults to `300`.
+   *
+   * @returns The user information.
+   * @throws {@link FiefAuthPopupBlockedError} if the browser blocked the popup.
+   * @throws {@link FiefAuthPopupClosedError} if the user closed the popup before the end.
+   * @throws {@link FiefAuthPopupTimeoutError} if the user didn't authenticate in time.
+   * @throws {@link FiefAuthInvalidStateError} if the `state` is not the expected one.
+   *
+   * @example
+   * ```ts
+   * button.addEventListener('click', async () => {
+   *     const userinfo = await fiefAuth.loginWithPopup('http://localhost:8080/popup-callback.html');
+   * });
+   * ```
    */
-  public async authCallback(redirectURI: string): Promise<void> {
-    const params = new URLSearchParams(window.location.search);
+  public async loginWithPopup(
+    redirectURI: string,
+    parameters?: {
+      scope?: string[],
+      lang?: string,
+      extrasParams?: Record<string, string>,
+      popupFeatures?: string,
+      timeout?: number,
+    },
+  ): Promise<FiefUserInfo<F>> {
+    // Open the popup before any asynchronous work, so it stays bound to the user interaction
+    const popup = window.open('', 'fief-login', parameters?.popupFeatures || FiefAuth.getPopupFeatures());
+    if (popup === null) {
+      throw new FiefAuthPopupBlockedError();
+    }
+
+    const timeout = parameters?.timeout !== undefined ? parameters.timeout : 300;
+
+    try {
+      // Kept in memory rather than in storage,
+      // so a login started by redirectToLogin in another tab isn't overwritten
+      const codeVerifier = await this.crypto.generateCodeVerifier();
+      const codeChallenge = await this.crypto.getCodeChallenge(codeVerifier, 'S256');
+      const nonce = await this.crypto.generateNonce();
+      const state = await this.crypto.generateNonce();
+
+      const authorizeURL = await this.client.getAuthURL({
+        redirectURI,
+        scope: parameters?.scope || ['openid'],
+        codeChallenge,
+        codeChallengeMethod: 'S256',
+        nonce,
+        state,
+        ...parameters?.lang ? { lang: parameters.lang } : {},
+        ...parameters?.extrasParams ? { extrasParams: parameters.extrasParams } : {},
+      });
+      popup.location.href = authorizeURL;
+
+      const deadline = Date.now() + timeout * 1000;
+      const callbackURL = await FiefAuth.waitForCallbackURL(
+        redirectURI,
+        POPUP_CALLBACK_MESSAGE_TYPE,
+        () => popup,
+        () => {
+          if (popup.closed) {
+            return new FiefAuthPopupClosedError();
+          }
+          return Date.now() >= deadline ? new FiefAuthPopupTimeoutError() : null;
+        },
+      );
+      return await this.handleCallbackURL(callbackURL, redirectURI, { state, codeVerifier, nonce });
+    } finally {
+      popup.close();
+    }
+  }
+
+  private async handleAuthCallback(redirectURI: string, search: string): Promise<string | null> {
+    const params = new URLSearchParams(search);
     const error = params.get('error');
     const errorDescription = params.get('error_description');
     const code = params.get('code');
+    const state = params.get('state');
 
     if (error !== null) {
       throw new FiefAuthAuthorizeError(error, errorDescription);
@@ -305,24 +1222,210 @@ export class FiefAuth {
     // Prevent authCallback request to be triggered twice with the same code.
     // Useful for frameworks like React which tends to re-render agressively.
     if (this.pendingAuthCallbacks.has(code)) {
-      return;
+      return null;
+    }
+
+    const stateStorage = this.getStateStorage();
+    const storedState = stateStorage.getState();
+    stateStorage.clearState();
+    if (storedState === null || state !== storedState.state) {
+      this.storage.clearCodeVerifier();
+      this.getNonceStorage().clearNonce();
+      throw new FiefAuthInvalidStateError();
     }
 
     const codeVerifier = this.storage.getCodeVerifier();
     this.storage.clearCodeVerifier();
 
+    const nonceStorage = this.getNonceStorage();
+    const nonce = nonceStorage.getNonce();
+    nonceStorage.clearNonce();
+
     this.pendingAuthCallbacks.add(code);
 
     const [tokenResponse, userinfo] = await this.client.authCallback(
       code,
       redirectURI,
       codeVerifier || undefined,
+      nonce || undefined,
     );
 
     this.pendingAuthCallbacks.delete(code);
 
-    this.storage.setTokenInfo(tokenResponse);
+    const tokenInfo = FiefAuth.getTokenInfoWithExpiry(tokenResponse);
+    this.storage.setTokenInfo(tokenInfo);
+    this.storage.setUserinfo(userinfo);
+    this.scheduleRefresh();
+    this.broadcast({ type: 'login', tokenInfo, userinfo });
+    await this.storage.flush?.();
+
+    return storedState.payload;
+  }
+
+  /**
+   * Authenticate the user without navigating away, using an authorization request
+   * with `prompt=none` in a hidden iframe.
+   *
+   * It succeeds only if the user still has a session on the Fief server.
+   * Useful to renew the tokens of public clients without refresh token.
+   *
+   * **The redirect URI should serve a page calling {@link silentLoginCallback},
+   * on the same origin as the application.**
+   *
+   * @param redirectURI - URI of the silent callback page.
+   * @param parameters.scope - Optional list of scopes to ask for. Defaults to `['openid']`.
+   * @param parameters.extrasParams - Optional object containing [specific parameters](https://docs.fief.dev/going-further/authorize-url/).
+   * @param parameters.timeout - Number of seconds to wait for the Fief server. Defaults to `10`.
+   *
+   * @returns The user information.
+   * @throws {@link FiefAuthInteractionRequiredError} if the user needs to authenticate again.
+   * @throws {@link FiefAuthSilentLoginTimeoutError} if the Fief server didn't answer in time.
+   *
+   * @example
+   * ```ts
+   * try {
+   *     await fiefAuth.silentLogin('http://localhost:8080/silent-callback.html');
+   * } catch (err) {
+   *     if (err instanceof fief.browser.FiefAuthInteractionRequiredError) {
+   *         fiefAuth.redirectToLogin('http://localhost:8080/callback.html');
+   *     }
+   * }
+   * ```
+   */
+  public async silentLogin(
+    redirectURI: string,
+    parameters?: {
+      scope?: string[],
+      extrasParams?: Record<string, string>,
+      timeout?: number,
+    },
+  ): Promise<FiefUserInfo<F>> {
+    const timeout = parameters?.timeout !== undefined ? parameters.timeout : 10;
+
+    const codeVerifier = await this.crypto.generateCodeVerifier();
+    const codeChallenge = await this.crypto.getCodeChallenge(codeVerifier, 'S256');
+    const nonce = await this.crypto.generateNonce();
+    const state = await this.crypto.generateNonce();
+
+    const authorizeURL = await this.client.getAuthURL({
+      redirectURI,
+      scope: parameters?.scope || ['openid'],
+      codeChallenge,
+      codeChallengeMethod: 'S256',
+      nonce,
+      state,
+      extrasParams: { ...parameters?.extrasParams, prompt: 'none' },
+    });
+
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.display = 'none';
+
+    const deadline = Date.now() + timeout * 1000;
+    const callbackURLPromise = FiefAuth.waitForCallbackURL(
+      redirectURI,
+      SILENT_CALLBACK_MESSAGE_TYPE,
+      () => iframe.contentWindow,
+      () => (Date.now() >= deadline ? new FiefAuthSilentLoginTimeoutError() : null),
+    );
+    iframe.src = authorizeURL;
+    document.body.appendChild(iframe);
+
+    try {
+      const callbackURL = await callbackURLPromise;
+      return await this.handleCallbackURL(callbackURL, redirectURI, { state, codeVerifier, nonce });
+    } finally {
+      iframe.remove();
+    }
+  }
+
+  /**
+   * Return the storage of the nonce of a redirect login.
+   *
+   * Falls back to a `sessionStorage` one if the storage doesn't implement the nonce methods.
+   */
+  private getNonceStorage(): FiefAuthNonceStorage {
+    const { storage } = this;
+    if (
+      storage.getNonce !== undefined
+      && storage.setNonce !== undefined
+      && storage.clearNonce !== undefined
+    ) {
+      return storage as FiefAuthNonceStorage;
+    }
+    return this.getFallbackStorage();
+  }
+
+  /**
+   * Return the storage of the state of a redirect login.
+   *
+   * Falls back to a `sessionStorage` one if the storage doesn't implement the state methods.
+   */
+  private getStateStorage(): FiefAuthStateStorage {
+    const { storage } = this;
+    if (
+      storage.getState !== undefined
+      && storage.setState !== undefined
+      && storage.clearState !== undefined
+    ) {
+      return storage as FiefAuthStateStorage;
+    }
+    return this.getFallbackStorage();
+  }
+
+  /**
+   * Return the `sessionStorage` storage used for the values
+   * the storage doesn't know how to keep.
+   */
+  private getFallbackStorage(): FiefAuthStorage {
+    if (this.fallbackStorage === undefined) {
+      this.fallbackStorage = new FiefAuthStorage();
+    }
+    return this.fallbackStorage;
+  }
+
+  /**
+   * Exchange the authorization code of a callback URL posted by an iframe or a popup
+   * and store the tokens and user information in the browser session.
+   *
+   * Unlike {@link FiefAuth#authCallback}, the `state`, PKCE code verifier and nonce
+   * are kept in memory by the caller.
+   */
+  private async handleCallbackURL(
+    callbackURL: URL,
+    redirectURI: string,
+    request: { state: string, codeVerifier: string, nonce: string },
+  ): Promise<FiefUserInfo<F>> {
+    const params = callbackURL.searchParams;
+    const error = params.get('error');
+    const code = params.get('code');
+    if (error !== null) {
+      const errorDescription = params.get('error_description');
+      if (INTERACTION_REQUIRED_ERRORS.includes(error)) {
+        throw new FiefAuthInteractionRequiredError(error, errorDescription);
+      }
+      throw new FiefAuthAuthorizeError(error, errorDescription);
+    }
+    if (params.get('state') !== request.state) {
+      throw new FiefAuthInvalidStateError();
+    }
+    if (code === null) {
+      throw new FiefAuthAuthorizeError('missing_code');
+    }
+
+    const [tokenResponse, userinfo] = await this.client.authCallback(
+      code,
+      redirectURI,
+      request.codeVerifier,
+      request.nonce,
+    );
+    const tokenInfo = FiefAuth.getTokenInfoWithExpiry(tokenResponse);
+    this.storage.setTokenInfo(tokenInfo);
     this.storage.setUserinfo(userinfo);
+    this.scheduleRefresh();
+    this.broadcast({ type: 'login', tokenInfo, userinfo });
+    await this.storage.flush?.();
+    return userinfo;
   }
 
   /**
@@ -346,13 +1449,14 @@ export class FiefAuth {
    * ;
    * ```
    */
-  public async refreshUserinfo(): Promise<FiefUserInfo> {
+  public async refreshUserinfo(): Promise<FiefUserInfo<F>> {
     const tokenInfo = this.getTokenInfo();
     if (tokenInfo === null) {
       throw new FiefAuthNotAuthenticatedError();
     }
-    const userinfo = await this.client.userinfo(tokenInfo.access_token);
+    const userinfo = await this.client.userinfo(tokenInfo);
     this.storage.setUserinfo(userinfo);
+    this.broadcast({ type: 'userinfo', userinfo });
     return userinfo;
   }
 
@@ -360,6 +1464,8 @@ export class FiefAuth {
    * Clear the access token and the user information from the browser storage
    * and redirect to the Fief logout endpoint.
    *
+   * If a refresh token is available, it's revoked before the redirection.
+   *
    * @param redirectURI - A valid URL where the user will be redirected after the logout process.
    *
    * @example
@@ -368,10 +1474,312 @@ export class FiefAuth {
    * ```
    */
   public async logout(redirectURI: string): Promise<void> {
+    const tokenInfo = this.storage.getTokenInfo();
+
+    this.stopAutoRefresh();
+
     this.storage.clearUserinfo();
     this.storage.clearTokeninfo();
+    this.broadcast({ type: 'logout' });
+
+    if (tokenInfo !== null && tokenInfo.refresh_token) {
+      try {
+        await this.client.revokeToken(tokenInfo.refresh_token, 'refresh_token');
+      } catch (err) {
+        // The local session is cleared anyway, don't prevent the user from logging out.
+      }
+    }
 
     const logoutURL = await this.client.getLogoutURL({ redirectURI });
+    await this.storage.flush?.();
     window.location.href = logoutURL;
   }
+
+  /**
+   * Return whether the access token should be refreshed.
+   */
+  private shouldRefresh(tokenInfo: FiefAuthTokenInfo): boolean {
+    if (tokenInfo.expires_at === undefined) {
+      return false;
+    }
+    return tokenInfo.expires_at - this.refreshLeeway <= Date.now() / 1000;
+  }
+
+  /**
+   * Refresh the access token and the user information using the refresh token in session.
+   *
+   * Concurrent calls share the same request to the Fief server.
+   * With cross-tab synchronisation, only one tab refreshes at a time.
+   */
+  private async refresh(): Promise<FiefAuthTokenInfo> {
+    if (this.refreshRequest === undefined) {
+      // Checked before starting the request: a synchronous throw in it would run
+      // the `finally` before the assignment and keep the rejected promise forever
+      const initialTokenInfo = this.storage.getTokenInfo();
+      if (initialTokenInfo === null || !initialTokenInfo.refresh_token) {
+        throw new FiefAuthExpiredError();
+      }
+      this.refreshRequest = (async () => {
+        try {
+          return await this.withRefreshLock(async () => {
+            const tokenInfo = this.storage.getTokenInfo();
+            if (tokenInfo === null || !tokenInfo.refresh_token) {
+              throw new FiefAuthExpiredError();
+            }
+            // Another tab refreshed the tokens while we were waiting for the lock
+            if (tokenInfo.access_token !== initialTokenInfo.access_token) {
+              return tokenInfo;
+            }
+            // Its message may not have been received yet:
+            // wait for it rather than sending a refresh token that was already rotated
+            if (await this.isRefreshTokenSpent(tokenInfo.refresh_token)) {
+              return this.waitForSyncedTokenInfo(tokenInfo.access_token);
+            }
+            const [tokenResponse, userinfo] = await this.client.authRefreshToken(
+              tokenInfo.refresh_token,
+            );
+            const refreshedTokenInfo = FiefAuth.getTokenInfoWithExpiry({
+              ...tokenResponse,
+              // The Fief server may not issue a new refresh token
+              refresh_token: tokenResponse.refresh_token || tokenInfo.refresh_token,
+            });
+            this.storage.setTokenInfo(refreshedTokenInfo);
+            this.storage.setUserinfo(userinfo);
+            this.scheduleRefresh();
+            await this.markRefreshTokenSpent(tokenInfo.refresh_token);
+            this.broadcast({ type: 'refresh', tokenInfo: refreshedTokenInfo, userinfo });
+            return refreshedTokenInfo;
+          });
+        } finally {
+          this.refreshRequest = undefined;
+        }
+      })();
+    }
+    return this.refreshRequest;
+  }
+
+  /**
+   * Run the callback while holding the cross-tab refresh lock, if available.
+   */
+  private async withRefreshLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (!this.crossTabSync || typeof navigator === 'undefined' || !navigator.locks) {
+      return callback();
+    }
+    return navigator.locks.request(`${this.syncName}:refresh`, callback);
+  }
+
+  /**
+   * Tell the tabs waiting for the refresh lock that a refresh token was used.
+   *
+   * Only a hash of the refresh token is written in `localStorage`:
+   * the new tokens are received through the synchronisation messages.
+   */
+  private async markRefreshTokenSpent(refreshToken: string): Promise<void> {
+    if (!this.crossTabSync) {
+      return;
+    }
+    window.localStorage.setItem(
+      `${this.syncName}:spent-refresh-token`,
+      await this.crypto.getCodeChallenge(refreshToken, 'S256'),
+    );
+  }
+
+  private async isRefreshTokenSpent(refreshToken: string): Promise<boolean> {
+    if (!this.crossTabSync) {
+      return false;
+    }
+    const spentRefreshToken = window.localStorage.getItem(`${this.syncName}:spent-refresh-token`);
+    return (
+      spentRefreshToken !== null
+      && spentRefreshToken === await this.crypto.getCodeChallenge(refreshToken, 'S256')
+    );
+  }
+
+  /**
+   * Wait for the tokens refreshed by another tab to be received.
+   *
+   * @throws {@link FiefAuthExpiredError} if they're not received within 10 seconds.
+   */
+  private waitForSyncedTokenInfo(accessToken: string): Promise<FiefAuthTokenInfo> {
+    const deadline = Date.now() + 10 * 1000;
+    return new Promise((resolve, reject) => {
+      const intervalId = setInterval(() => {
+        const tokenInfo = this.storage.getTokenInfo();
+        if (tokenInfo !== null && tokenInfo.access_token !== accessToken) {
+          clearInterval(intervalId);
+          resolve(tokenInfo);
+        } else if (tokenInfo === null || Date.now() >= deadline) {
+          clearInterval(intervalId);
+          reject(new FiefAuthExpiredError());
+        }
+      }, 100);
+    });
+  }
+
+  /**
+   * Listen to the session changes of the other tabs.
+   */
+  private startSync(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.syncChannel = new BroadcastChannel(this.syncName);
+      this.syncChannel.onmessage = (event: MessageEvent) => this.handleSyncMessage(event.data);
+    } else {
+      this.syncStorageListener = (event: StorageEvent) => {
+        if (event.key === this.syncName && event.newValue !== null) {
+          this.handleSyncNotification(JSON.parse(event.newValue).type);
+        }
+      };
+      window.addEventListener('storage', this.syncStorageListener);
+    }
+  }
+
+  /**
+   * Send a session change to the other tabs.
+   */
+  private broadcast(message: FiefAuthSyncMessage): void {
+    if (!this.crossTabSync) {
+      return;
+    }
+    if (this.syncChannel !== undefined) {
+      this.syncChannel.postMessage(message);
+    } else {
+      // Only the type of change is sent, so the tokens are never written in localStorage.
+      // Only the change of value triggers the event, so the key is removed right away.
+      window.localStorage.setItem(this.syncName, JSON.stringify({ type: message.type }));
+      window.localStorage.removeItem(this.syncName);
+    }
+  }
+
+  private handleSyncMessage(message: FiefAuthSyncMessage): void {
+    switch (message.type) {
+      case 'login':
+      case 'refresh':
+        this.storage.setTokenInfo(message.tokenInfo);
+        this.storage.setUserinfo(message.userinfo);
+        this.scheduleRefresh();
+        break;
+      case 'userinfo':
+        this.storage.setUserinfo(message.userinfo);
+        break;
+      case 'logout':
+        this.cancelScheduledRefresh();
+        this.storage.clearUserinfo();
+        this.storage.clearTokeninfo();
+        break;
+      default:
+        return;
+    }
+    this.onSync(message);
+  }
+
+  /**
+   * Handle a session change notified by a `storage` event,
+   * reading the new session back from the storage.
+   */
+  private handleSyncNotification(type: FiefAuthSyncMessage['type']): void {
+    if (type === 'logout') {
+      this.handleSyncMessage({ type });
+      return;
+    }
+
+    // The session of the other tab can't be read back from a storage specific to this tab
+    if (!(this.storage instanceof FiefAuthLocalStorage)) {
+      return;
+    }
+    const tokenInfo = this.storage.getTokenInfo();
+    const userinfo = this.storage.getUserinfo();
+    if (tokenInfo === null || userinfo === null) {
+      return;
+    }
+    if (type === 'userinfo') {
+      this.onSync({ type, userinfo });
+    } else {
+      this.scheduleRefresh();
+      this.onSync({ type, tokenInfo, userinfo });
+    }
+  }
+
+  /**
+   * Schedule the background refresh of the access token, if enabled.
+   */
+  private scheduleRefresh(): void {
+    this.cancelScheduledRefresh();
+
+    const tokenInfo = this.storage.getTokenInfo();
+    if (
+      !this.autoRefresh
+      || tokenInfo === null
+      || tokenInfo.expires_at === undefined
+      || !tokenInfo.refresh_token
+      || this.getStatus() !== 'authenticated'
+    ) {
+      return;
+    }
+
+    // Wait at least half of the remaining lifetime, so short-lived tokens don't refresh in a loop
+    const remaining = tokenInfo.expires_at * 1000 - Date.now();
+    const delay = Math.max(remaining - this.refreshLeeway * 1000, remaining / 2);
+    this.refreshTimeoutId = setTimeout(() => {
+      this.refreshTimeoutId = undefined;
+      this.refresh().catch((err) => this.onRefreshError(err));
+    }, delay);
+  }
+
+  private cancelScheduledRefresh(): void {
+    clearTimeout(this.refreshTimeoutId);
+    this.refreshTimeoutId = undefined;
+  }
+
+  /**
+   * Wait for the callback page, opened in an iframe or a popup, to post its URL.
+   *
+   * `check` is called periodically and the waiting stops with the error it returns, if any.
+   */
+  private static waitForCallbackURL(
+    redirectURI: string,
+    messageType: string,
+    getSource: () => Window | null,
+    check: () => FiefAuthError | null,
+  ): Promise<URL> {
+    const { origin } = new URL(redirectURI);
+    return new Promise((resolve, reject) => {
+      let intervalId: ReturnType<typeof setInterval> | undefined;
+      const onMessage = (event: MessageEvent) => {
+        if (
+          event.source !== getSource()
+          || event.origin !== origin
+          || event.data?.type !== messageType
+        ) {
+          return;
+        }
+        clearInterval(intervalId);
+        window.removeEventListener('message', onMessage);
+        resolve(new URL(event.data.url));
+      };
+      window.addEventListener('message', onMessage);
+      intervalId = setInterval(() => {
+        const error = check();
+        if (error !== null) {
+          clearInterval(intervalId);
+          window.removeEventListener('message', onMessage);
+          reject(error);
+        }
+      }, 100);
+    });
+  }
+
+  private static getPopupFeatures(): string {
+    const width = 500;
+    const height = 600;
+    const left = Math.max(0, window.screenX + (window.outerWidth - width) / 2);
+    const top = Math.max(0, window.screenY + (window.outerHeight - height) / 2);
+    return `popup,width=${width},height=${height},left=${left},top=${top}`;
+  }
+
+  private static getTokenInfoWithExpiry(tokenResponse: FiefTokenResponse): FiefAuthTokenInfo {
+    return {
+      ...tokenResponse,
+      expires_at: Math.floor(Date.now() / 1000) + tokenResponse.expires_in,
+    };
+  }
 }
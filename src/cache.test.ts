@@ -0,0 +1,39 @@
+import { FiefMemoryMetadataCache } from './cache';
+
+describe('FiefMemoryMetadataCache', () => {
+  let cache: FiefMemoryMetadataCache;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    cache = new FiefMemoryMetadataCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return null if no value', async () => {
+    expect(await cache.get('KEY')).toBeNull();
+  });
+
+  it('should return the value before it expires', async () => {
+    await cache.set('KEY', { foo: 'bar' }, 60);
+
+    jest.advanceTimersByTime(59000);
+    expect(await cache.get('KEY')).toEqual({ foo: 'bar' });
+  });
+
+  it('should return null after the value expires', async () => {
+    await cache.set('KEY', { foo: 'bar' }, 60);
+
+    jest.advanceTimersByTime(60000);
+    expect(await cache.get('KEY')).toBeNull();
+  });
+
+  it('should remove the value', async () => {
+    await cache.set('KEY', { foo: 'bar' }, 60);
+    await cache.remove('KEY');
+
+    expect(await cache.get('KEY')).toBeNull();
+  });
+});
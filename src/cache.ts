@@ -0,0 +1,64 @@
+/**
+ * Interface that should follow a class to implement cache
+ * for the OpenID configuration and the JSON Web Key Set of the Fief server.
+ *
+ * Useful in serverless environments to share them between cold starts,
+ * for example with a Redis or a KV store.
+ */
+export interface IFiefMetadataCache {
+  /**
+   * Retrieve a value from cache, if available and not expired.
+   *
+   * @param key - Key of the value.
+   *
+   * @returns The value or `null`.
+   */
+  get(key: string): Promise<Record<string, any> | null>;
+
+  /**
+   * Store a value in cache.
+   *
+   * @param key - Key of the value.
+   * @param value - The value to store.
+   * @param ttl - Number of seconds after which the value expires.
+   */
+  set(key: string, value: Record<string, any>, ttl: number): Promise<void>;
+
+  /**
+   * Remove a value from cache.
+   *
+   * @param key - Key of the value.
+   */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Default {@link IFiefMetadataCache} implementation, keeping values in memory.
+ */
+export class FiefMemoryMetadataCache implements IFiefMetadataCache {
+  private storage: Map<string, { value: Record<string, any>, expiresAt: number }>;
+
+  constructor() {
+    this.storage = new Map();
+  }
+
+  public async get(key: string): Promise<Record<string, any> | null> {
+    const entry = this.storage.get(key);
+    if (entry === undefined) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.storage.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  public async set(key: string, value: Record<string, any>, ttl: number): Promise<void> {
+    this.storage.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  public async remove(key: string): Promise<void> {
+    this.storage.delete(key);
+  }
+}
@@ -1,7 +1,16 @@
 import * as jose from 'jose';
 
+import { FiefMemoryMetadataCache, IFiefMetadataCache } from './cache';
 import { getCrypto, ICryptoHelper } from './crypto';
+import { FiefDPoPKey } from './dpop';
 import { getFetch } from './fetch';
+import {
+  CircuitBreaker,
+  FiefCircuitBreakerParameters,
+  FiefRequestEvent,
+  FiefRetryPolicy,
+  getRetryDelay,
+} from './resilience';
 
 const serializeQueryString = (object: Record<string, string>): string => {
   const elements: string[] = [];
@@ -13,6 +22,77 @@ const serializeQueryString = (object: Record<string, string>): string => {
   return elements.join('&');
 };
 
+/**
+ * Encode an ASCII string in Base64, falling back on `Buffer`
+ * for Node.js versions without the global `btoa`.
+ */
+const toBase64 = (value: string): string => (
+  typeof btoa === 'function' ? btoa(value) : Buffer.from(value).toString('base64')
+);
+
+/**
+ * Asymmetric algorithms accepted for the DPoP proofs.
+ */
+const DPOP_ALGORITHMS = [
+  'ES256', 'ES384', 'ES512',
+  'PS256', 'PS384', 'PS512',
+  'RS256', 'RS384', 'RS512',
+  'EdDSA',
+];
+
+const normalizeHTU = (url: string): string => {
+  const { origin, pathname } = new URL(url);
+  return `${origin}${pathname}`;
+};
+
+/**
+ * Wait for a promise, unless the signal is aborted before.
+ *
+ * The promise itself is not cancelled, so it can be shared by several callers.
+ */
+const withSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal === undefined) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+    );
+  });
+};
+
+const wait = (seconds: number, signal?: AbortSignal): Promise<void> => new Promise(
+  (resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, seconds * 1000);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  },
+);
+
 /**
  * List of defined Authentication Context Class Reference.
  */
@@ -51,8 +131,10 @@ export interface FiefTokenResponse {
 
   /**
    * Type of token, usually `bearer`.
+   *
+   * It's `DPoP` if the access token is bound to the {@link FiefDPoPKey} of the client.
    */
-  token_type: string;
+  token_type: 'bearer' | 'DPoP';
 
   /**
    * Number of seconds after which the tokens will expire.
@@ -66,6 +148,52 @@ export interface FiefTokenResponse {
   refresh_token?: string;
 }
 
+/**
+ * Access token used to call the Fief API.
+ *
+ * Either the access token itself, sent with the `Bearer` scheme,
+ * or the {@link FiefTokenResponse} it comes from, sent with the scheme of its `token_type`.
+ * Pass the token response to use a [DPoP](https://www.rfc-editor.org/rfc/rfc9449)-bound token.
+ */
+export type FiefAccessToken = string | Pick<FiefTokenResponse, 'access_token' | 'token_type'>;
+
+/**
+ * Object returned by Fief when starting
+ * a [device authorization](https://www.rfc-editor.org/rfc/rfc8628) process.
+ */
+export interface FiefDeviceAuthorizationResponse {
+  /**
+   * Code identifying the device, used to poll for the tokens.
+   */
+  device_code: string;
+
+  /**
+   * Code the user should enter on the verification page.
+   */
+  user_code: string;
+
+  /**
+   * URL of the verification page the user should visit.
+   */
+  verification_uri: string;
+
+  /**
+   * URL of the verification page with the user code already filled in.
+   * Useful to display a QR code.
+   */
+  verification_uri_complete?: string;
+
+  /**
+   * Number of seconds after which the device code will expire.
+   */
+  expires_in: number;
+
+  /**
+   * Minimum number of seconds to wait between two polling requests. Defaults to `5`.
+   */
+  interval?: number;
+}
+
 /**
  * Object containing information about the access token.
  *
@@ -108,6 +236,65 @@ export interface FiefAccessTokenInfo {
   access_token: string;
 }
 
+/**
+ * Object returned by the Fief server after a token introspection,
+ * following [RFC 7662](https://www.rfc-editor.org/rfc/rfc7662).
+ *
+ * **Example:**
+ *
+ * ```json
+ * {
+ *     "active": true,
+ *     "sub": "aeeb8bfa-e8f4-4724-9427-c3d5af66190e",
+ *     "client_id": "YOUR_CLIENT_ID",
+ *     "scope": "openid required_scope",
+ *     "exp": 1700000000
+ * }
+ * ```
+ */
+export interface FiefTokenIntrospection extends jose.JWTPayload {
+  /**
+   * Whether the token is currently active,
+   * i.e. it's not expired, revoked or issued for a disabled user.
+   */
+  active: boolean;
+
+  /**
+   * Space-separated list of scopes associated with the token.
+   */
+  scope?: string;
+
+  /**
+   * ID of the client the token was issued for.
+   */
+  client_id?: string;
+
+  /**
+   * Type of the token.
+   */
+  token_type?: string;
+}
+
+/**
+ * [User fields](https://docs.fief.dev/getting-started/user-fields/) values, indexed by their slug.
+ *
+ * Declare your own type to get typed user fields across the client and the integrations.
+ *
+ * @example
+ * ```ts
+ * interface UserFields {
+ *     first_name: string;
+ *     last_name: string;
+ * }
+ *
+ * const fief = new Fief<UserFields>({
+ *     baseURL: 'https://example.fief.dev',
+ *     clientId: 'YOUR_CLIENT_ID',
+ * });
+ * ```
+ */
+export type FiefUserFields = Record<string, any>;
+
 /**
  * Object containing user information.
  *
@@ -126,7 +313,9 @@ export interface FiefAccessTokenInfo {
  * }
  * ```
  */
-export interface FiefUserInfo extends jose.JWTPayload {
+export interface FiefUserInfo<
+  F extends FiefUserFields = FiefUserFields,
+> extends jose.JWTPayload {
   /**
    * ID of the user.
    */
@@ -145,654 +334,2476 @@ export interface FiefUserInfo extends jose.JWTPayload {
   /**
    * [User fields](https://docs.fief.dev/getting-started/user-fields/) values for this user, indexed by their slug.
    */
-  fields: Record<string, any>;
+  fields: F;
 }
 
 /**
- * Base Fief client error.
+ * Data to update the profile of a user with {@link Fief#updateProfile}.
  */
-export class FiefError extends Error { }
+export interface FiefUserProfileUpdate<F extends FiefUserFields = FiefUserFields> {
+  /**
+   * [User fields](https://docs.fief.dev/getting-started/user-fields/) values to update,
+   * indexed by their slug.
+   */
+  fields?: Partial<F>;
+
+  /**
+   * Other profile data accepted by the Fief API.
+   */
+  [key: string]: any;
+}
 
 /**
- * The request to Fief server resulted in an error.
+ * OpenID configuration of the Fief server,
+ * as returned by its [discovery endpoint](https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata).
+ *
+ * @example
+ * ```json
+ * {
+ *     "issuer": "https://example.fief.dev",
+ *     "authorization_endpoint": "https://example.fief.dev/authorize",
+ *     "token_endpoint": "https://example.fief.dev/api/token",
+ *     "userinfo_endpoint": "https://example.fief.dev/api/userinfo",
+ *     "jwks_uri": "https://example.fief.dev/.well-known/jwks.json",
+ *     "scopes_supported": ["openid", "offline_access"],
+ *     "grant_types_supported": ["authorization_code", "refresh_token"],
+ *     "code_challenge_methods_supported": ["plain", "S256"]
+ * }
+ * ```
  */
-export class FiefRequestError extends FiefError {
-  public status: number;
+export interface FiefOpenIDConfiguration {
+  /**
+   * Issuer identifier of the Fief server.
+   */
+  issuer: string;
 
-  public detail: string;
+  /**
+   * URL of the authorization endpoint.
+   */
+  authorization_endpoint: string;
 
-  constructor(status: number, detail: string) {
-    super(`[${status}] - ${detail}`);
-    this.status = status;
-    this.detail = detail;
-  }
-}
+  /**
+   * URL of the token endpoint.
+   */
+  token_endpoint: string;
 
-/**
- * The access token is invalid.
- */
-export class FiefAccessTokenInvalid extends FiefError { }
+  /**
+   * URL of the user information endpoint.
+   */
+  userinfo_endpoint: string;
 
-/**
- * The access token is expired.
- */
-export class FiefAccessTokenExpired extends FiefError { }
+  /**
+   * URL of the JSON Web Key Set of the Fief server.
+   */
+  jwks_uri: string;
 
-/**
- * The access token is missing a required scope.
- */
-export class FiefAccessTokenMissingScope extends FiefError { }
+  /**
+   * URL of the dynamic client registration endpoint, if supported.
+   */
+  registration_endpoint?: string;
 
-/**
- * The access token doesn't meet the minimum ACR level.
- */
-export class FiefAccessTokenACRTooLow extends FiefError { }
+  /**
+   * URL of the token revocation endpoint, if supported.
+   */
+  revocation_endpoint?: string;
 
-/**
- * The access token is missing a required permission.
- */
-export class FiefAccessTokenMissingPermission extends FiefError { }
+  /**
+   * URL of the token introspection endpoint, if supported.
+   */
+  introspection_endpoint?: string;
+
+  /**
+   * URL of the device authorization endpoint, if supported.
+   */
+  device_authorization_endpoint?: string;
+
+  /**
+   * URL of the pushed authorization request endpoint, if supported.
+   */
+  pushed_authorization_request_endpoint?: string;
+
+  /**
+   * URL of the logout endpoint, if advertised.
+   */
+  end_session_endpoint?: string;
+
+  /**
+   * List of supported scopes.
+   */
+  scopes_supported?: string[];
+
+  /**
+   * List of supported `response_type` values.
+   */
+  response_types_supported?: string[];
+
+  /**
+   * List of supported `response_mode` values.
+   */
+  response_modes_supported?: string[];
+
+  /**
+   * List of supported grant types.
+   */
+  grant_types_supported?: string[];
+
+  /**
+   * List of supported subject identifier types.
+   */
+  subject_types_supported?: string[];
+
+  /**
+   * List of supported ACR values.
+   */
+  acr_values_supported?: string[];
+
+  /**
+   * List of supported claims.
+   */
+  claims_supported?: string[];
+
+  /**
+   * List of supported PKCE code challenge methods.
+   */
+  code_challenge_methods_supported?: string[];
+
+  /**
+   * List of supported client authentication methods at the token endpoint.
+   */
+  token_endpoint_auth_methods_supported?: string[];
+
+  /**
+   * List of supported signature algorithms of the ID token.
+   */
+  id_token_signing_alg_values_supported?: string[];
+
+  /**
+   * List of supported key management algorithms of the encrypted ID token.
+   */
+  id_token_encryption_alg_values_supported?: string[];
+
+  /**
+   * List of supported content encryption algorithms of the encrypted ID token.
+   */
+  id_token_encryption_enc_values_supported?: string[];
+
+  /**
+   * List of supported signature algorithms of the DPoP proofs.
+   */
+  dpop_signing_alg_values_supported?: string[];
+
+  /**
+   * Whether the Fief server only accepts pushed authorization requests.
+   */
+  require_pushed_authorization_requests?: boolean;
+}
 
 /**
- * The ID token is invalid.
+ * Base Fief client error.
  */
-export class FiefIdTokenInvalid extends FiefError { }
+export class FiefError extends Error { }
 
 /**
- * Constructor parameters for the Fief client.
+ * Validation error on a field of a request to the Fief server.
  */
-export interface FiefParameters {
+export interface FiefFieldError {
   /**
-   * Base URL of your Fief tenant.
-   */
-  baseURL: string;
-
-  /**
-   * ID of your Fief client.
+   * Path of the invalid field, like `email` or `fields.first_name`.
    */
-  clientId: string;
+  field: string;
 
   /**
-   * Secret of your Fief client.
-   *
-   * It's not recommended to use it in the context of a browser app,
-   * since it can be easily found by the end-user in the source code.
-   * The recommended way is to use a [Public client](https://docs.fief.dev/getting-started/clients/#public-clients).
+   * Human-readable error message.
    */
-  clientSecret?: string;
+  message: string;
 
   /**
-   * Encryption key of your Fief client.
-   * Necessary only if ID Token encryption is enabled.
-   *
-   * @see [ID Token encryption](https://docs.fief.dev/going-further/id-token-encryption/)
+   * Type of the validation error, like `value_error.email`.
    */
-  encryptionKey?: string;
+  type: string;
 }
 
 /**
- * Fief authentication client.
+ * The request to Fief server resulted in an error.
+ *
+ * The response body is parsed to expose the error details,
+ * both for the Fief API and the OAuth endpoints.
  *
  * @example
  * ```ts
- *  const fief = new Fief({
- *   baseURL: 'https://example.fief.dev',
- *   clientId: 'YOUR_CLIENT_ID',
- *   clientSecret: 'YOUR_CLIENT_SECRET',
- * });
+ * try {
+ *     await fief.emailChange('ACCESS_TOKEN', 'anne@nantes.city');
+ * } catch (err) {
+ *     if (err instanceof FiefRequestError && err.code === 'UPDATE_USER_EMAIL_ALREADY_EXISTS') {
+ *         console.error('This email address is already used');
+ *     }
+ * }
  * ```
  */
-export class Fief {
-  private baseURL: string;
+export class FiefRequestError extends FiefError {
+  /**
+   * HTTP status code of the response.
+   */
+  public status: number;
 
-  private clientId: string;
+  /**
+   * Raw body of the response.
+   */
+  public detail: string;
 
-  private clientSecret?: string;
+  /**
+   * Error code, like `UPDATE_USER_EMAIL_ALREADY_EXISTS` or `invalid_grant`, if any.
+   */
+  public code: string | null;
 
-  private encryptionKey?: jose.KeyLike | Uint8Array;
+  /**
+   * Human-readable reason of the error, if any.
+   */
+  public reason: string | null;
 
-  private fetch: typeof fetch;
+  /**
+   * Validation errors on the request fields.
+   */
+  public fieldErrors: FiefFieldError[];
 
-  private openIDConfiguration?: Record<string, any>;
+  /**
+   * OAuth `error` returned by the Fief server, if any.
+   */
+  public error: string | null;
 
-  private jwks?: jose.JSONWebKeySet;
+  /**
+   * OAuth `error_description` returned by the Fief server, if any.
+   */
+  public errorDescription: string | null;
 
-  private crypto: ICryptoHelper;
+  constructor(status: number, detail: string) {
+    super(`[${status}] - ${detail}`);
+    this.status = status;
+    this.detail = detail;
+    this.code = null;
+    this.reason = null;
+    this.fieldErrors = [];
+    this.error = null;
+    this.errorDescription = null;
 
-  constructor(parameters: FiefParameters) {
+    let body: any;
+    try {
+      body = JSON.parse(detail);
+    } catch (err) {
+      return;
+    }
+    if (body === null || typeof body !== 'object') {
+      return;
+    }
+
+    if (typeof body.error === 'string') {
+      this.error = body.error;
+      this.errorDescription = typeof body.error_description === 'string'
+        ? body.error_description
+        : null
+      ;
+      this.code = body.error;
+      this.reason = this.errorDescription;
+    }
+
+    const bodyDetail = body.detail;
+    if (typeof bodyDetail === 'string') {
+      this.code = bodyDetail;
+    } else if (Array.isArray(bodyDetail)) {
+      this.fieldErrors = bodyDetail.map((fieldError: any) => ({
+        // Strip the request part, like `body` or `query`, from the location
+        field: (Array.isArray(fieldError.loc) ? fieldError.loc.slice(1) : []).join('.'),
+        message: fieldError.msg,
+        type: fieldError.type,
+      }));
+    } else if (bodyDetail !== null && typeof bodyDetail === 'object') {
+      this.code = typeof bodyDetail.code === 'string' ? bodyDetail.code : null;
+      this.reason = typeof bodyDetail.reason === 'string' ? bodyDetail.reason : null;
+    }
+  }
+}
+
+/**
+ * The user fields returned by the Fief server don't match the user fields validator.
+ */
+export class FiefUserFieldsInvalid extends FiefError { }
+
+/**
+ * The client authentication failed on the Fief server.
+ */
+export class FiefInvalidClientError extends FiefRequestError { }
+
+/**
+ * The authorization code, refresh token or device code is invalid, expired or revoked.
+ */
+export class FiefInvalidGrantError extends FiefRequestError { }
+
+/**
+ * The requested scopes are invalid or exceed the granted ones.
+ */
+export class FiefInvalidScopeError extends FiefRequestError { }
+
+/**
+ * The request to the Fief server didn't complete before the configured timeout.
+ */
+export class FiefRequestTimeoutError extends FiefError { }
+
+/**
+ * The request was rejected without being sent
+ * because the circuit breaker is open after repeated failures of the Fief server.
+ */
+export class FiefCircuitOpenError extends FiefError { }
+
+/**
+ * The Fief server doesn't support a feature requested by the client,
+ * according to its OpenID configuration.
+ */
+export class FiefUnsupportedCapabilityError extends FiefError { }
+
+/**
+ * The device authorization process failed.
+ */
+export class FiefDeviceAuthorizationError extends FiefError { }
+
+/**
+ * The device code expired before the user completed the authorization.
+ */
+export class FiefDeviceAuthorizationExpired extends FiefDeviceAuthorizationError { }
+
+/**
+ * The user denied the device authorization.
+ */
+export class FiefDeviceAuthorizationDenied extends FiefDeviceAuthorizationError { }
+
+/**
+ * The access token is invalid.
+ */
+export class FiefAccessTokenInvalid extends FiefError { }
+
+/**
+ * The access token was not issued by the expected Fief server.
+ */
+export class FiefAccessTokenIssuerInvalid extends FiefAccessTokenInvalid { }
+
+/**
+ * The access token was not issued for this client.
+ */
+export class FiefAccessTokenAudienceInvalid extends FiefAccessTokenInvalid { }
+
+/**
+ * The access token is signed with an algorithm that is not allowed.
+ */
+export class FiefAccessTokenAlgorithmInvalid extends FiefAccessTokenInvalid { }
+
+/**
+ * The DPoP proof of the request is invalid or doesn't match the access token binding.
+ */
+export class FiefAccessTokenDPoPInvalid extends FiefAccessTokenInvalid { }
+
+/**
+ * The access token is expired.
+ */
+export class FiefAccessTokenExpired extends FiefError { }
+
+/**
+ * The access token is missing a required scope.
+ */
+export class FiefAccessTokenMissingScope extends FiefError { }
+
+/**
+ * The access token doesn't meet the minimum ACR level.
+ */
+export class FiefAccessTokenACRTooLow extends FiefError { }
+
+/**
+ * The access token is missing a required permission.
+ */
+export class FiefAccessTokenMissingPermission extends FiefError { }
+
+/**
+ * The ID token is invalid.
+ */
+export class FiefIdTokenInvalid extends FiefError { }
+
+/**
+ * The ID token `nonce` claim doesn't match the one sent in the authorization request.
+ */
+export class FiefIdTokenNonceInvalid extends FiefIdTokenInvalid { }
+
+/**
+ * The ID token was not issued by the expected Fief server.
+ */
+export class FiefIdTokenIssuerInvalid extends FiefIdTokenInvalid { }
+
+/**
+ * The ID token was not issued for this client.
+ */
+export class FiefIdTokenAudienceInvalid extends FiefIdTokenInvalid { }
+
+/**
+ * The ID token is signed with an algorithm that is not allowed.
+ */
+export class FiefIdTokenAlgorithmInvalid extends FiefIdTokenInvalid { }
+
+/**
+ * Method used by the client to authenticate on the Fief server endpoints.
+ *
+ * @see [Client authentication](https://openid.net/specs/openid-connect-core-1_0.html#ClientAuthentication)
+ */
+export type FiefClientAuthMethod = (
+  'client_secret_post' |
+  'client_secret_basic' |
+  'private_key_jwt' |
+  'none'
+);
+
+/**
+ * Constructor parameters for the Fief client.
+ */
+export interface FiefParameters<F extends FiefUserFields = FiefUserFields> {
+  /**
+   * Base URL of your Fief tenant.
+   */
+  baseURL: string;
+
+  /**
+   * ID of your Fief client.
+   */
+  clientId: string;
+
+  /**
+   * Secret of your Fief client.
+   *
+   * It's not recommended to use it in the context of a browser app,
+   * since it can be easily found by the end-user in the source code.
+   * The recommended way is to use a [Public client](https://docs.fief.dev/getting-started/clients/#public-clients).
+   */
+  clientSecret?: string;
+
+  /**
+   * Method used to authenticate the client on the token, revocation,
+   * introspection and device authorization endpoints.
+   *
+   * If not provided, it's chosen among the methods advertised by the Fief server
+   * in `token_endpoint_auth_methods_supported`, depending on the provided credentials:
+   * `private_key_jwt` if a client assertion key is set,
+   * then `client_secret_post` or `client_secret_basic` if a client secret is set.
+   */
+  tokenEndpointAuthMethod?: FiefClientAuthMethod;
+
+  /**
+   * Private key of your Fief client, as a JSON Web Key string.
+   * Necessary only for the `private_key_jwt` authentication method.
+   */
+  clientAssertionKey?: string;
+
+  /**
+   * Algorithm used to sign the client assertion.
+   *
+   * Defaults to the `alg` of the client assertion key or `RS256`.
+   */
+  clientAssertionAlgorithm?: string;
+
+  /**
+   * Key used to bind the tokens to this client with [DPoP](https://www.rfc-editor.org/rfc/rfc9449).
+   *
+   * If set, a DPoP proof is sent to the token endpoint and with each call to the Fief API.
+   */
+  dpopKey?: FiefDPoPKey;
+
+  /**
+   * Number of seconds during which a DPoP proof is accepted after its issuance
+   * when validating a DPoP-bound access token.
+   *
+   * Defaults to `60`.
+   */
+  dpopProofMaxAge?: number;
+
+  /**
+   * Custom `fetch` implementation used for every request to the Fief server.
+   *
+   * Useful to instrument the requests or to go through a proxy.
+   * Defaults to the `fetch` implementation of the environment.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Number of seconds after which a request to the Fief server is aborted
+   * with a {@link FiefRequestTimeoutError}.
+   *
+   * Defaults to `0`, i.e. no timeout.
+   */
+  timeout?: number;
+
+  /**
+   * Policy to retry the idempotent `GET` requests to the Fief server,
+   * like discovery, JSON Web Key Set or user information,
+   * after a network error or a server error.
+   *
+   * By default, requests are not retried.
+   */
+  retry?: FiefRetryPolicy;
+
+  /**
+   * Parameters of a circuit breaker making the requests fail fast
+   * with a {@link FiefCircuitOpenError} after repeated failures of the Fief server.
+   *
+   * By default, there is no circuit breaker.
+   */
+  circuitBreaker?: FiefCircuitBreakerParameters;
+
+  /**
+   * Optional handler called on retries and circuit breaker state changes.
+   *
+   * Useful for logging or monitoring.
+   */
+  onEvent?: (event: FiefRequestEvent) => void;
+
+  /**
+   * Encryption key of your Fief client.
+   * Necessary only if ID Token encryption is enabled.
+   *
+   * @see [ID Token encryption](https://docs.fief.dev/going-further/id-token-encryption/)
+   */
+  encryptionKey?: string;
+
+  /**
+   * Pre-fetched OpenID configuration of the Fief server.
+   *
+   * If set, it's used as is and the Fief server is never queried for it.
+   */
+  openIDConfiguration?: FiefOpenIDConfiguration;
+
+  /**
+   * Pre-fetched JSON Web Key Set of the Fief server.
+   *
+   * If set, it's used as is and the Fief server is never queried for it,
+   * allowing fully offline token validation.
+   * Keys rotated by the Fief server won't be known, though.
+   */
+  jwks?: jose.JSONWebKeySet;
+
+  /**
+   * Cache for the OpenID configuration and the JSON Web Key Set of the Fief server.
+   *
+   * Useful in serverless environments to avoid fetching them on each cold start.
+   * Defaults to an in-memory cache.
+   */
+  metadataCache?: IFiefMetadataCache;
+
+  /**
+   * Number of seconds during which the OpenID configuration is kept in the metadata cache.
+   *
+   * Defaults to `86400`.
+   */
+  openIDConfigurationCacheTTL?: number;
+
+  /**
+   * Number of seconds during which the JSON Web Key Set of the Fief server is cached.
+   * After this delay, the keys are fetched again on the next token validation.
+   *
+   * Defaults to `3600`.
+   */
+  jwksCacheTTL?: number;
+
+  /**
+   * Minimum number of seconds between two fetches of the JSON Web Key Set.
+   *
+   * When a token signed with an unknown key is received, the keys are fetched again
+   * to handle key rotation. This delay prevents forged tokens
+   * from flooding the Fief server with requests.
+   *
+   * Defaults to `60`.
+   */
+  jwksMinRefreshInterval?: number;
+
+  /**
+   * Whether to check that the `iss` claim of the tokens matches
+   * the issuer advertised by the Fief server.
+   *
+   * Defaults to `true`.
+   */
+  verifyIssuer?: boolean;
+
+  /**
+   * Whether to check that the `aud` and `azp` claims of the tokens match the client ID.
+   *
+   * Defaults to `true`.
+   */
+  verifyAudience?: boolean;
+
+  /**
+   * Additional audiences accepted in the `aud` claim of the tokens, besides the client ID.
+   */
+  extraAudiences?: string[];
+
+  /**
+   * List of accepted signature algorithms for the tokens.
+   *
+   * Defaults to `['RS256']`.
+   */
+  algorithms?: string[];
+
+  /**
+   * Number of seconds of tolerance when checking the time-based claims
+   * of the tokens, like `exp` or `nbf`, to account for clock skew.
+   *
+   * Defaults to `0`.
+   */
+  clockTolerance?: number;
+
+  /**
+   * Optional function validating the user fields returned by the Fief server,
+   * like the `parse` method of a schema validation library.
+   *
+   * It should return the validated user fields or throw an error.
+   * If it throws, a {@link FiefUserFieldsInvalid} error is raised.
+   *
+   * @example
+   * ```ts
+   * const fief = new Fief<UserFields>({
+   *     baseURL: 'https://example.fief.dev',
+   *     clientId: 'YOUR_CLIENT_ID',
+   *     userFieldsValidator: (fields) => userFieldsSchema.parse(fields),
+   * });
+   * ```
+   */
+  userFieldsValidator?: (fields: unknown) => F;
+}
+
+type FiefSupportedValuesKey = (
+  'scopes_supported' |
+  'grant_types_supported' |
+  'code_challenge_methods_supported' |
+  'claims_supported'
+);
+
+/**
+ * Fief authentication client.
+ *
+ * @example
+ * ```ts
+ *  const fief = new Fief({
+ *   baseURL: 'https://example.fief.dev',
+ *   clientId: 'YOUR_CLIENT_ID',
+ *   clientSecret: 'YOUR_CLIENT_SECRET',
+ * });
+ * ```
+ */
+export class Fief<F extends FiefUserFields = FiefUserFields> {
+  private baseURL: string;
+
+  private clientId: string;
+
+  private clientSecret?: string;
+
+  private tokenEndpointAuthMethod?: FiefClientAuthMethod;
+
+  private clientAssertionJWK?: jose.JWK;
+
+  private clientAssertionAlgorithm: string;
+
+  private clientAssertionKey?: Promise<jose.KeyLike | Uint8Array>;
+
+  private encryptionKey?: jose.KeyLike | Uint8Array;
+
+  private fetch: typeof fetch;
+
+  private timeout: number;
+
+  private maxRetries: number;
+
+  private retryInitialDelay: number;
+
+  private retryMaxDelay: number;
+
+  private circuitBreaker?: CircuitBreaker;
+
+  private onEvent: (event: FiefRequestEvent) => void;
+
+  private openIDConfiguration?: FiefOpenIDConfiguration;
+
+  private openIDConfigurationRequest?: Promise<FiefOpenIDConfiguration>;
+
+  private openIDConfigurationCacheTTL: number;
+
+  private metadataCache: IFiefMetadataCache;
+
+  private jwksPrefetched: boolean;
+
+  private jwks?: jose.JSONWebKeySet;
+
+  private jwksFetchedAt: number;
+
+  private jwksLastFetchAttemptAt: number;
+
+  private jwksRequest?: Promise<jose.JSONWebKeySet>;
+
+  private jwksCacheTTL: number;
+
+  private jwksMinRefreshInterval: number;
+
+  private verifyIssuer: boolean;
+
+  private verifyAudience: boolean;
+
+  private extraAudiences: string[];
+
+  private algorithms: string[];
+
+  private clockTolerance: number;
+
+  private introspectionCache: Map<string, {
+    introspection: FiefTokenIntrospection,
+    expiresAt: number,
+  }>;
+
+  private dpopKey?: FiefDPoPKey;
+
+  private dpopProofMaxAge: number;
+
+  private dpopProofJTIs: Map<string, number>;
+
+  private dpopNonce?: string;
+
+  private crypto: ICryptoHelper;
+
+  private userFieldsValidator?: (fields: unknown) => F;
+
+  constructor(parameters: FiefParameters<F>) {
     this.baseURL = parameters.baseURL;
     this.clientId = parameters.clientId;
     this.clientSecret = parameters.clientSecret;
+    this.tokenEndpointAuthMethod = parameters.tokenEndpointAuthMethod;
+
+    if (parameters.clientAssertionKey !== undefined) {
+      try {
+        this.clientAssertionJWK = JSON.parse(parameters.clientAssertionKey);
+      } catch (err) {
+        throw new FiefError('clientAssertionKey should be a valid JSON Web Key string.');
+      }
+    }
+    this.clientAssertionAlgorithm = parameters.clientAssertionAlgorithm
+      || this.clientAssertionJWK?.alg
+      || 'RS256'
+    ;
+
+    if (parameters.encryptionKey !== undefined) {
+      jose
+        .importJWK(JSON.parse(parameters.encryptionKey), 'RSA-OAEP-256')
+        .then((encryptionKey) => {
+          this.encryptionKey = encryptionKey;
+        })
+      ;
+    }
+
+    this.metadataCache = parameters.metadataCache
+      ? parameters.metadataCache
+      : new FiefMemoryMetadataCache()
+    ;
+    this.openIDConfiguration = parameters.openIDConfiguration;
+    this.openIDConfigurationCacheTTL = parameters.openIDConfigurationCacheTTL !== undefined
+      ? parameters.openIDConfigurationCacheTTL
+      : 86400
+    ;
+    this.jwks = parameters.jwks;
+    this.jwksPrefetched = parameters.jwks !== undefined;
+
+    this.jwksFetchedAt = 0;
+    this.jwksLastFetchAttemptAt = 0;
+    this.jwksCacheTTL = parameters.jwksCacheTTL !== undefined ? parameters.jwksCacheTTL : 3600;
+    this.jwksMinRefreshInterval = parameters.jwksMinRefreshInterval !== undefined
+      ? parameters.jwksMinRefreshInterval
+      : 60
+    ;
+
+    this.verifyIssuer = parameters.verifyIssuer !== undefined ? parameters.verifyIssuer : true;
+    this.verifyAudience = parameters.verifyAudience !== undefined
+      ? parameters.verifyAudience
+      : true
+    ;
+    this.extraAudiences = parameters.extraAudiences ? parameters.extraAudiences : [];
+    this.algorithms = parameters.algorithms ? parameters.algorithms : ['RS256'];
+    this.clockTolerance = parameters.clockTolerance !== undefined ? parameters.clockTolerance : 0;
+
+    this.introspectionCache = new Map();
+
+    this.dpopKey = parameters.dpopKey;
+    this.dpopProofMaxAge = parameters.dpopProofMaxAge !== undefined
+      ? parameters.dpopProofMaxAge
+      : 60
+    ;
+    this.dpopProofJTIs = new Map();
+
+    this.fetch = parameters.fetch ? parameters.fetch : getFetch();
+    this.timeout = parameters.timeout !== undefined ? parameters.timeout : 0;
+
+    const retry = parameters.retry ? parameters.retry : {};
+    this.maxRetries = retry.maxRetries !== undefined ? retry.maxRetries : 0;
+    this.retryInitialDelay = retry.initialDelay !== undefined ? retry.initialDelay : 0.2;
+    this.retryMaxDelay = retry.maxDelay !== undefined ? retry.maxDelay : 5;
+
+    this.onEvent = parameters.onEvent ? parameters.onEvent : () => {};
+    if (parameters.circuitBreaker !== undefined) {
+      this.circuitBreaker = new CircuitBreaker(parameters.circuitBreaker, this.onEvent);
+    }
+
+    this.crypto = getCrypto();
+    this.userFieldsValidator = parameters.userFieldsValidator;
+  }
+
+  /**
+   * Return an authorization URL.
+   *
+   * @param parameters.redirectURI - Your callback URI where the user
+   * will be redirected after Fief authentication.
+   * @param parameters.state - Optional string that will be returned back
+   * in the callback parameters to allow you to retrieve state information.
+   * @param parameters.scope - Optional list of scopes to ask for.
+   * @param parameters.codeChallenge - Optional code challenge for [PKCE process](https://docs.fief.dev/going-further/pkce/).
+   * @param parameters.codeChallengeMethod - Method used to hash the PKCE code challenge.
+   * @param parameters.nonce - Optional random value that will be included in the ID token.
+   * Pass it back to {@link Fief#authCallback} to protect against replay attacks.
+   * @param parameters.lang - Optional parameter to set the user locale.
+   * Should be a valid [RFC 3066](https://www.rfc-editor.org/rfc/rfc3066) language identifier, like `fr` or `pt-PT`.
+   * @param parameters.extrasParams - Optional object containing [specific parameters](https://docs.fief.dev/going-further/authorize-url/).
+   * @param parameters.pushed - Whether to send the parameters to the Fief server
+   * with a [Pushed Authorization Request](https://www.rfc-editor.org/rfc/rfc9126),
+   * so they don't appear in the authorization URL.
+   * If the Fief server doesn't support it, a classic authorization URL is returned.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns The authorization URL.
+   *
+   * @example
+   * ```ts
+   * const authURL = await fief.getAuthURL({
+   *     redirectURI: 'http://localhost:8000/callback',
+   *     scope: ['openid'],
+   * );
+   * ```
+   */
+  public async getAuthURL(parameters: {
+    redirectURI: string;
+    state?: string;
+    scope?: string[];
+    codeChallenge?: string,
+    codeChallengeMethod?: 'plain' | 'S256',
+    nonce?: string;
+    lang?: string;
+    extrasParams?: Record<string, string>;
+    pushed?: boolean;
+  }, signal?: AbortSignal): Promise<string> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+
+    const {
+      redirectURI,
+      state,
+      scope,
+      codeChallenge,
+      codeChallengeMethod,
+      nonce,
+      lang,
+      extrasParams,
+      pushed,
+    } = parameters;
+
+    if (scope !== undefined) {
+      await this.assertSupported('scopes_supported', scope, 'scopes', signal);
+    }
+    if (codeChallengeMethod !== undefined) {
+      await this.assertSupported(
+        'code_challenge_methods_supported',
+        [codeChallengeMethod],
+        'code challenge method',
+        signal,
+      );
+    }
+
+    const authorizationParams: Record<string, string> = {
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: redirectURI,
+      ...state ? { state } : {},
+      ...codeChallenge ? { code_challenge: codeChallenge } : {},
+      ...codeChallengeMethod ? { code_challenge_method: codeChallengeMethod } : {},
+      ...nonce ? { nonce } : {},
+      ...state ? { state } : {},
+      ...scope ? { scope: scope.join(' ') } : {},
+      ...lang ? { lang } : {},
+      ...extrasParams ? { ...extrasParams } : {},
+    };
+
+    const authorizationEndpoint = openIDConfiguration.authorization_endpoint;
+
+    if (pushed && openIDConfiguration.pushed_authorization_request_endpoint !== undefined) {
+      const requestURI = await this.pushAuthorizationRequest(
+        openIDConfiguration.pushed_authorization_request_endpoint,
+        authorizationParams,
+        signal,
+      );
+      const pushedParams = new URLSearchParams({
+        client_id: this.clientId,
+        request_uri: requestURI,
+      });
+      return `${authorizationEndpoint}?${pushedParams.toString()}`;
+    }
+
+    const redirectURIParams = new URLSearchParams(authorizationParams);
+    return `${authorizationEndpoint}?${redirectURIParams.toString()}`;
+  }
+
+  /**
+   * Return a {@link FiefTokenResponse} and {@link FiefUserInfo}
+   * in exchange of an authorization code.
+   *
+   * @param code - The authorization code.
+   * @param redirectURI - The exact same `redirectURI` you passed to the authorization URL.
+   * @param codeVerifier - The raw [PKCE](https://docs.fief.dev/going-further/pkce/) code
+   * used to generate the code challenge during authorization.
+   * @param nonce - The exact same `nonce` you passed to the authorization URL, if any.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A token response and user information.
+   * @throws {@link FiefIdTokenNonceInvalid} if the ID token `nonce` claim doesn't match.
+   *
+   * @example
+   * ```ts
+   * const [tokens, userinfo] = await fief.authCallback('CODE', 'http://localhost:8000/callback');
+   * ```
+   */
+  public async authCallback(
+    code: string,
+    redirectURI: string,
+    codeVerifier?: string,
+    nonce?: string,
+    signal?: AbortSignal,
+  ): Promise<[FiefTokenResponse, FiefUserInfo<F>]> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    await this.assertSupported('grant_types_supported', ['authorization_code'], 'grant type', signal);
+    const response = await this.requestToken(
+      openIDConfiguration.token_endpoint,
+      'authorization_code',
+      {
+        code,
+        redirect_uri: redirectURI,
+        ...codeVerifier ? { code_verifier: codeVerifier } : {},
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data: FiefTokenResponse = await response.json();
+
+    const userinfo = await this.decodeIDToken({
+      idToken: data.id_token,
+      code,
+      accessToken: data.access_token,
+      nonce,
+      signal,
+    });
+
+    return [data, userinfo];
+  }
+
+  /**
+   * Return fresh {@link FiefTokenResponse} and {@link FiefUserInfo} in exchange of a refresh token.
+   *
+   * @param refreshToken - A valid refresh token.
+   * @param scope - Optional list of scopes to ask for.
+   * If not provided, the access token will share the same list of scopes
+   * as requested the first time.
+   * Otherwise, it should be a subset of the original list of scopes.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A token response and user information.
+   *
+   * @example
+   * ```ts
+   * const [tokens, userinfo] = await fief.authRefreshToken('REFRESH_TOKEN');
+   * ```
+   */
+  public async authRefreshToken(
+    refreshToken: string,
+    scope?: string[],
+    signal?: AbortSignal,
+  ): Promise<[FiefTokenResponse, FiefUserInfo<F>]> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    await this.assertSupported('grant_types_supported', ['refresh_token'], 'grant type', signal);
+    const response = await this.requestToken(
+      openIDConfiguration.token_endpoint,
+      'refresh_token',
+      {
+        refresh_token: refreshToken,
+        ...scope ? { scope: scope.join(' ') } : {},
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data: FiefTokenResponse = await response.json();
+
+    const userinfo = await this.decodeIDToken({
+      idToken: data.id_token,
+      accessToken: data.access_token,
+      signal,
+    });
+
+    return [data, userinfo];
+  }
+
+  /**
+   * Return a {@link FiefTokenResponse} for the client itself,
+   * using the [client credentials grant](https://www.rfc-editor.org/rfc/rfc6749#section-4.4).
+   *
+   * Useful for machine-to-machine calls. The client must be confidential,
+   * i.e. authenticated with a client secret or a client assertion key.
+   * Since no user is involved, the response doesn't contain an ID token.
+   *
+   * @param scope - Optional list of scopes to ask for.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A token response.
+   *
+   * @example
+   * ```ts
+   * const tokens = await fief.authClientCredentials(['castles:read']);
+   * ```
+   */
+  public async authClientCredentials(
+    scope?: string[],
+    signal?: AbortSignal,
+  ): Promise<FiefTokenResponse> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    await this.assertSupported('grant_types_supported', ['client_credentials'], 'grant type', signal);
+    const response = await this.requestToken(
+      openIDConfiguration.token_endpoint,
+      'client_credentials',
+      scope ? { scope: scope.join(' ') } : {},
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data: FiefTokenResponse = await response.json();
+    return data;
+  }
+
+  /**
+   * Start a [device authorization](https://www.rfc-editor.org/rfc/rfc8628) process.
+   *
+   * Useful for devices without a browser or with limited input capabilities, like CLIs or TVs.
+   * Show the user code and the verification URI to the user,
+   * then call {@link Fief#pollDeviceToken} to wait for the tokens.
+   *
+   * @param scope - Optional list of scopes to ask for.
+   * @param extrasParams - Optional object containing specific parameters.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A {@link FiefDeviceAuthorizationResponse}.
+   * @throws {@link FiefError} if the Fief server doesn't support device authorization.
+   *
+   * @example
+   * ```ts
+   * const deviceAuthorization = await fief.startDeviceAuthorization(['openid']);
+   * const { verification_uri: uri, user_code: userCode } = deviceAuthorization;
+   * console.log(`Go to ${uri} and enter the code ${userCode}`);
+   * const [tokens, userinfo] = await fief.pollDeviceToken(deviceAuthorization);
+   * ```
+   */
+  public async startDeviceAuthorization(
+    scope?: string[],
+    extrasParams?: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<FiefDeviceAuthorizationResponse> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    if (openIDConfiguration.device_authorization_endpoint === undefined) {
+      throw new FiefUnsupportedCapabilityError('The Fief server does not support device authorization.');
+    }
+    await this.assertSupported(
+      'grant_types_supported',
+      ['urn:ietf:params:oauth:grant-type:device_code'],
+      'grant type',
+      signal,
+    );
+
+    const [clientParams, clientHeaders] = await this.getClientAuthentication();
+    const payload = serializeQueryString({
+      ...clientParams,
+      ...scope ? { scope: scope.join(' ') } : {},
+      ...extrasParams ? { ...extrasParams } : {},
+    });
+
+    const response = await this.request(
+      openIDConfiguration.device_authorization_endpoint,
+      {
+        method: 'POST',
+        body: payload,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...clientHeaders,
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data: FiefDeviceAuthorizationResponse = await response.json();
+    return data;
+  }
+
+  /**
+   * Poll the Fief server until the user completes a device authorization process,
+   * and return a {@link FiefTokenResponse} and {@link FiefUserInfo}.
+   *
+   * The polling interval requested by the server is respected
+   * and increased when the server asks to slow down.
+   *
+   * @param deviceAuthorization - The response of {@link Fief#startDeviceAuthorization}.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A token response and user information.
+   * @throws {@link FiefDeviceAuthorizationExpired} if the device code expired.
+   * @throws {@link FiefDeviceAuthorizationDenied} if the user denied the authorization.
+   *
+   * @example
+   * ```ts
+   * const [tokens, userinfo] = await fief.pollDeviceToken(deviceAuthorization);
+   * ```
+   */
+  public async pollDeviceToken(
+    deviceAuthorization: FiefDeviceAuthorizationResponse,
+    signal?: AbortSignal,
+  ): Promise<[FiefTokenResponse, FiefUserInfo<F>]> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+
+    const expiresAt = Date.now() + deviceAuthorization.expires_in * 1000;
+    const interval = deviceAuthorization.interval !== undefined ? deviceAuthorization.interval : 5;
+
+    return this.pollDeviceTokenAttempt(
+      openIDConfiguration.token_endpoint,
+      deviceAuthorization.device_code,
+      interval,
+      expiresAt,
+      signal,
+    );
+  }
+
+  /**
+   * Check if an access token is valid and optionally that it has a required list of scopes,
+   * or a required list of [permissions](https://docs.fief.dev/getting-started/access-control/).
+   *
+   * @param accessToken - The access token to validate.
+   * @param requiredScopes - Optional list of scopes to check for.
+   * @param requiredACR - Optional minimum ACR level required. Read more: https://docs.fief.dev/going-further/acr/
+   * @param requiredPermissions - Optional list of permissions to check for.
+   * @param options.introspect - If `true`, the access token is checked by the Fief server
+   * through [token introspection](https://www.rfc-editor.org/rfc/rfc7662)
+   * instead of a local signature verification. Slower, but a revoked token is rejected immediately.
+   * @param options.introspectionCacheTTL - Number of seconds during which
+   * an introspection result is cached. Defaults to `0`, i.e. no cache.
+   * @param options.dpop - The DPoP proof, HTTP method and URL of the request,
+   * if it was sent with a `DPoP` header. Required for DPoP-bound access tokens.
+   * @param options.signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns {@link FiefAccessTokenInfo}
+   * @throws {@link FiefAccessTokenInvalid} if the access token is invalid.
+   * @throws {@link FiefAccessTokenIssuerInvalid} if the access token was issued by another server.
+   * @throws {@link FiefAccessTokenAudienceInvalid} if the access token is for another client.
+   * @throws {@link FiefAccessTokenAlgorithmInvalid} if the access token algorithm is not allowed.
+   * @throws {@link FiefAccessTokenDPoPInvalid} if the DPoP proof is invalid or missing.
+   * @throws {@link FiefAccessTokenExpired} if the access token is expired.
+   * @throws {@link FiefAccessTokenMissingScope} if a scope is missing.
+   * @throws {@link FiefAccessTokenMissingPermission} if a permission is missing.
+   *
+   * @example
+   * ```ts
+   * try {
+   *     accessTokenInfo = await fief.validateAccessToken('ACCESS_TOKEN', ['required_scope']);
+   *     console.log(accessTokenInfo);
+   * } catch (err) {
+   *     if (err instanceof FiefAccessTokenInvalid) {
+   *         console.error('Invalid access token');
+   *     } else if (err instanceof FiefAccessTokenExpired) {
+   *         console.error('Expired access token');
+   *     } else if (err instanceof FiefAccessTokenMissingScope) {
+   *         console.error('Missing required scope');
+   *     }
+   * }
+   * ```
+   */
+  public async validateAccessToken(
+    accessToken: string,
+    requiredScopes?: string[],
+    requiredACR?: FiefACR,
+    requiredPermissions?: string[],
+    options?: {
+      introspect?: boolean,
+      introspectionCacheTTL?: number,
+      dpop?: {
+        proof: string,
+        method: string,
+        url: string,
+      },
+      signal?: AbortSignal,
+    },
+  ): Promise<FiefAccessTokenInfo> {
+    try {
+      const claims = options?.introspect
+        ? await this.getIntrospectionClaims(
+          accessToken,
+          options.introspectionCacheTTL || 0,
+          options.signal,
+        )
+        : (await this.verifyJWT(accessToken, options?.signal)).payload
+      ;
+
+      await this.verifyDPoPBinding(accessToken, claims, options?.dpop);
+
+      const scope = claims.scope as (string | undefined);
+      if (scope === undefined) {
+        throw new FiefAccessTokenInvalid();
+      }
+      const accessTokenScopes = scope.split(' ');
+
+      if (requiredScopes) {
+        requiredScopes.forEach((requiredScope) => {
+          const inAccessTokenScopes = accessTokenScopes.some(
+            (accessTokenScope) => accessTokenScope === requiredScope,
+          );
+          if (!inAccessTokenScopes) {
+            throw new FiefAccessTokenMissingScope();
+          }
+        });
+      }
+
+      const acr = claims.acr as (FiefACR | undefined);
+      if (acr === undefined || !Object.values(FiefACR).includes(acr)) {
+        throw new FiefAccessTokenInvalid();
+      }
+      if (requiredACR) {
+        if (compareACR(acr, requiredACR) < 0) {
+          throw new FiefAccessTokenACRTooLow();
+        }
+      }
+
+      const permissions = claims.permissions as (string[] | undefined);
+      if (permissions === undefined) {
+        throw new FiefAccessTokenInvalid();
+      }
+      if (requiredPermissions) {
+        requiredPermissions.forEach((requiredPermission) => {
+          const inAccessTokenPermissions = permissions.some(
+            (permission) => permission === requiredPermission,
+          );
+          if (!inAccessTokenPermissions) {
+            throw new FiefAccessTokenMissingPermission();
+          }
+        });
+      }
+
+      return {
+        id: claims.sub as string,
+        scope: accessTokenScopes,
+        acr,
+        permissions,
+        access_token: accessToken,
+      };
+    } catch (err) {
+      if (err instanceof jose.errors.JWTExpired) {
+        throw new FiefAccessTokenExpired();
+      } else if (err instanceof jose.errors.JWTClaimValidationFailed && err.claim === 'iss') {
+        throw new FiefAccessTokenIssuerInvalid();
+      } else if (
+        err instanceof jose.errors.JWTClaimValidationFailed
+        && (err.claim === 'aud' || err.claim === 'azp')
+      ) {
+        throw new FiefAccessTokenAudienceInvalid();
+      } else if (err instanceof jose.errors.JOSEAlgNotAllowed) {
+        throw new FiefAccessTokenAlgorithmInvalid();
+      } else if (err instanceof jose.errors.JOSEError) {
+        throw new FiefAccessTokenInvalid();
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Revoke an access token or a refresh token,
+   * following [RFC 7009](https://www.rfc-editor.org/rfc/rfc7009).
+   *
+   * @param token - The token to revoke.
+   * @param tokenTypeHint - Optional hint about the type of the token.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @throws {@link FiefError} if the Fief server doesn't support token revocation.
+   *
+   * @example
+   * ```ts
+   * await fief.revokeToken('REFRESH_TOKEN', 'refresh_token');
+   * ```
+   */
+  public async revokeToken(
+    token: string,
+    tokenTypeHint?: 'access_token' | 'refresh_token',
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    if (openIDConfiguration.revocation_endpoint === undefined) {
+      throw new FiefUnsupportedCapabilityError('The Fief server does not support token revocation.');
+    }
+
+    const [clientParams, clientHeaders] = await this.getClientAuthentication();
+    const payload = serializeQueryString({
+      ...clientParams,
+      token,
+      ...tokenTypeHint ? { token_type_hint: tokenTypeHint } : {},
+    });
+
+    const response = await this.request(
+      openIDConfiguration.revocation_endpoint,
+      {
+        method: 'POST',
+        body: payload,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...clientHeaders,
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+  }
+
+  /**
+   * Return the state of an access token or a refresh token from the Fief server,
+   * following [RFC 7662](https://www.rfc-editor.org/rfc/rfc7662).
+   *
+   * @param token - The token to introspect.
+   * @param tokenTypeHint - Optional hint about the type of the token.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns A {@link FiefTokenIntrospection}.
+   * @throws {@link FiefError} if the Fief server doesn't support token introspection.
+   *
+   * @example
+   * ```ts
+   * const introspection = await fief.introspectToken('ACCESS_TOKEN', 'access_token');
+   * if (!introspection.active) {
+   *     console.error('Inactive access token');
+   * }
+   * ```
+   */
+  public async introspectToken(
+    token: string,
+    tokenTypeHint?: 'access_token' | 'refresh_token',
+    signal?: AbortSignal,
+  ): Promise<FiefTokenIntrospection> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    if (openIDConfiguration.introspection_endpoint === undefined) {
+      throw new FiefUnsupportedCapabilityError('The Fief server does not support token introspection.');
+    }
+
+    const [clientParams, clientHeaders] = await this.getClientAuthentication();
+    const payload = serializeQueryString({
+      ...clientParams,
+      token,
+      ...tokenTypeHint ? { token_type_hint: tokenTypeHint } : {},
+    });
+
+    const response = await this.request(
+      openIDConfiguration.introspection_endpoint,
+      {
+        method: 'POST',
+        body: payload,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...clientHeaders,
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data: FiefTokenIntrospection = await response.json();
+    return data;
+  }
+
+  /**
+   * Return fresh {@link FiefUserInfo} from the Fief API using a valid access token.
+   *
+   * @param accessToken - A valid access token, or its {@link FiefTokenResponse}.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns Fresh user information.
+   *
+   * @example
+   * ```ts
+   * userinfo = await fief.userinfo('ACCESS_TOKEN');
+   * ```
+   */
+  public async userinfo(
+    accessToken: FiefAccessToken,
+    signal?: AbortSignal,
+  ): Promise<FiefUserInfo<F>> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    const response = await this.requestWithAccessToken(
+      openIDConfiguration.userinfo_endpoint,
+      accessToken,
+      {
+        method: 'GET',
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const data = await response.json();
+    return this.validateUserFields(data);
+  }
+
+  /**
+   * Updates user information with the Fief API using a valid access token.
+   *
+   * @param accessToken - A valid access token, or its {@link FiefTokenResponse}.
+   * @param data - An object containing the data to update.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns Updated user information.
+   *
+   * @example
+   * To update [user field](https://docs.fief.dev/getting-started/user-fields/) values,
+   * you need to nest them into a `fields` object, indexed by their slug.
+   * ```ts
+   * userinfo = await fief.update_profile('ACCESS_TOKEN', { fields: { first_name: 'Anne' } })
+   * ```
+   */
+  public async updateProfile(
+    accessToken: FiefAccessToken,
+    data: FiefUserProfileUpdate<F>,
+    signal?: AbortSignal,
+  ): Promise<FiefUserInfo<F>> {
+    const updateProfileEndpoint = `${this.baseURL}/api/profile`;
+    const response = await this.requestWithAccessToken(
+      updateProfileEndpoint,
+      accessToken,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const userinfo = await response.json();
+    return this.validateUserFields(userinfo);
+  }
+
+  /**
+   * Changes the user password with the Fief API using a valid access token.
+   *
+   * **An access token with an ACR of at least level 1 is required.**
+   *
+   * @param accessToken - A valid access token, or its {@link FiefTokenResponse}.
+   * @param newPassword - The new password.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns Updated user information.
+   *
+   * @example
+   * ```ts
+   * userinfo = await fief.changePassword('ACCESS_TOKEN', 'herminetincture')
+   * ```
+   */
+  public async changePassword(
+    accessToken: FiefAccessToken,
+    newPassword: string,
+    signal?: AbortSignal,
+  ): Promise<FiefUserInfo<F>> {
+    const updateProfileEndpoint = `${this.baseURL}/api/password`;
+    const response = await this.requestWithAccessToken(
+      updateProfileEndpoint,
+      accessToken,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ password: newPassword }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const userinfo = await response.json();
+    return this.validateUserFields(userinfo);
+  }
 
-    if (parameters.encryptionKey !== undefined) {
-      jose
-        .importJWK(JSON.parse(parameters.encryptionKey), 'RSA-OAEP-256')
-        .then((encryptionKey) => {
-          this.encryptionKey = encryptionKey;
-        })
-      ;
-    }
+  /**
+   * Requests an email change with the Fief API using a valid access token.
+   *
+   * The user will receive a verification code on this new email address.
+   * It shall be used with the method {@link emailVerify} to complete the modification.
+   *
+   * **An access token with an ACR of at least level 1 is required.**
+   *
+   * @param accessToken - A valid access token, or its {@link FiefTokenResponse}.
+   * @param newPassword - The new email address.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns Updated user information.
+   *
+   * @example
+   * ```ts
+   * userinfo = await fief.emailChange('ACCESS_TOKEN', 'anne@nantes.city')
+   * ```
+   */
+  public async emailChange(
+    accessToken: FiefAccessToken,
+    email: string,
+    signal?: AbortSignal,
+  ): Promise<FiefUserInfo<F>> {
+    const updateProfileEndpoint = `${this.baseURL}/api/email/change`;
+    const response = await this.requestWithAccessToken(
+      updateProfileEndpoint,
+      accessToken,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ email }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const userinfo = await response.json();
+    return this.validateUserFields(userinfo);
+  }
 
-    this.fetch = getFetch();
+  /**
+   * Verifies the user email with the Fief API using a valid access token and verification code.
+   *
+   *
+   * **An access token with an ACR of at least level 1 is required.**
+   *
+   * @param accessToken - A valid access token, or its {@link FiefTokenResponse}.
+   * @param newPassword - The new email address.
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @returns Updated user information.
+   *
+   * @example
+   * ```ts
+   * userinfo = await fief.emailVerify('ACCESS_TOKEN', 'ABCDE')
+   * ```
+   */
+  public async emailVerify(
+    accessToken: FiefAccessToken,
+    code: string,
+    signal?: AbortSignal,
+  ): Promise<FiefUserInfo<F>> {
+    const updateProfileEndpoint = `${this.baseURL}/api/email/verify`;
+    const response = await this.requestWithAccessToken(
+      updateProfileEndpoint,
+      accessToken,
+      {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+      signal,
+    );
+    await Fief.handleRequestError(response);
+    const userinfo = await response.json();
+    return this.validateUserFields(userinfo);
+  }
 
-    this.crypto = getCrypto();
+  /**
+   * Returns a logout URL.
+   * If you redirect the user to this page, Fief will clear the session stored on its side.
+   *
+   * **You're still responsible for clearing your own session mechanism if any.**
+   *
+   * @param parameters.redirectURI - A valid URL where the user will be
+   * redirected after the logout process.
+   *
+   * @returns The logout URL.
+   *
+   * @example
+   * ```ts
+   * const logoutURL = await fief.getLogoutURL({
+   *    redirectURI: 'http://localhost:8000',
+   * });
+   * ```
+   */
+  public async getLogoutURL(parameters: { redirectURI: string }): Promise<string> {
+    const params = new URLSearchParams({
+      redirect_uri: parameters.redirectURI,
+    });
+    return `${this.baseURL}/logout?${params.toString()}`;
   }
 
   /**
-   * Return an authorization URL.
+   * Return the OpenID configuration of the Fief server.
    *
-   * @param parameters.redirectURI - Your callback URI where the user
-   * will be redirected after Fief authentication.
-   * @param parameters.state - Optional string that will be returned back
-   * in the callback parameters to allow you to retrieve state information.
-   * @param parameters.scope - Optional list of scopes to ask for.
-   * @param parameters.codeChallenge - Optional code challenge for [PKCE process](https://docs.fief.dev/going-further/pkce/).
-   * @param parameters.codeChallengeMethod - Method used to hash the PKCE code challenge.
-   * @param parameters.lang - Optional parameter to set the user locale.
-   * Should be a valid [RFC 3066](https://www.rfc-editor.org/rfc/rfc3066) language identifier, like `fr` or `pt-PT`.
-   * @param parameters.extrasParams - Optional object containing [specific parameters](https://docs.fief.dev/going-further/authorize-url/).
+   * @param signal - Optional `AbortSignal` to cancel the request to the Fief server.
    *
-   * @returns The authorization URL.
+   * @returns The {@link FiefOpenIDConfiguration} of the Fief server.
    *
    * @example
    * ```ts
-   * const authURL = await fief.getAuthURL({
-   *     redirectURI: 'http://localhost:8000/callback',
-   *     scope: ['openid'],
-   * );
+   * const metadata = await fief.getServerMetadata();
+   * console.log(metadata.token_endpoint);
    * ```
    */
-  public async getAuthURL(parameters: {
-    redirectURI: string;
-    state?: string;
-    scope?: string[];
-    codeChallenge?: string,
-    codeChallengeMethod?: 'plain' | 'S256',
-    lang?: string;
-    extrasParams?: Record<string, string>;
-  }): Promise<string> {
-    const openIDConfiguration = await this.getOpenIDConfiguration();
+  public async getServerMetadata(signal?: AbortSignal): Promise<FiefOpenIDConfiguration> {
+    return this.getOpenIDConfiguration(signal);
+  }
 
-    const {
-      redirectURI,
-      state,
-      scope,
-      codeChallenge,
-      codeChallengeMethod,
-      lang,
-      extrasParams,
-    } = parameters;
+  /**
+   * Check if the Fief server supports a list of scopes.
+   *
+   * If the Fief server doesn't advertise its supported scopes, they are assumed to be supported.
+   *
+   * @param scopes - List of scopes to check.
+   * @param signal - Optional `AbortSignal` to cancel the request to the Fief server.
+   *
+   * @returns Whether all the scopes are supported.
+   *
+   * @example
+   * ```ts
+   * const supported = await fief.supportsScopes(['openid', 'offline_access']);
+   * ```
+   */
+  public async supportsScopes(scopes: string[], signal?: AbortSignal): Promise<boolean> {
+    const unsupported = await this.getUnsupportedValues('scopes_supported', scopes, signal);
+    return unsupported.length === 0;
+  }
 
-    const redirectURIParams = new URLSearchParams({
-      response_type: 'code',
-      client_id: this.clientId,
-      redirect_uri: redirectURI,
-      ...state ? { state } : {},
-      ...codeChallenge ? { code_challenge: codeChallenge } : {},
-      ...codeChallengeMethod ? { code_challenge_method: codeChallengeMethod } : {},
-      ...state ? { state } : {},
-      ...scope ? { scope: scope.join(' ') } : {},
-      ...lang ? { lang } : {},
-      ...extrasParams ? { ...extrasParams } : {},
+  /**
+   * Check if the Fief server supports a grant type.
+   *
+   * If the Fief server doesn't advertise its supported grant types, it's assumed to be supported.
+   *
+   * @param grantType - Grant type to check, like `refresh_token`.
+   * @param signal - Optional `AbortSignal` to cancel the request to the Fief server.
+   *
+   * @returns Whether the grant type is supported.
+   *
+   * @example
+   * ```ts
+   * const supported = await fief.supportsGrantType('client_credentials');
+   * ```
+   */
+  public async supportsGrantType(grantType: string, signal?: AbortSignal): Promise<boolean> {
+    const unsupported = await this.getUnsupportedValues('grant_types_supported', [grantType], signal);
+    return unsupported.length === 0;
+  }
+
+  /**
+   * Check if the Fief server supports a PKCE code challenge method.
+   *
+   * If the Fief server doesn't advertise its supported methods, it's assumed to be supported.
+   *
+   * @param method - Code challenge method to check.
+   * @param signal - Optional `AbortSignal` to cancel the request to the Fief server.
+   *
+   * @returns Whether the code challenge method is supported.
+   *
+   * @example
+   * ```ts
+   * const supported = await fief.supportsCodeChallengeMethod('S256');
+   * ```
+   */
+  public async supportsCodeChallengeMethod(
+    method: 'plain' | 'S256',
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    const unsupported = await this.getUnsupportedValues(
+      'code_challenge_methods_supported',
+      [method],
+      signal,
+    );
+    return unsupported.length === 0;
+  }
+
+  /**
+   * Check if the Fief server supports a list of claims.
+   *
+   * If the Fief server doesn't advertise its supported claims, they are assumed to be supported.
+   *
+   * @param claims - List of claims to check.
+   * @param signal - Optional `AbortSignal` to cancel the request to the Fief server.
+   *
+   * @returns Whether all the claims are supported.
+   *
+   * @example
+   * ```ts
+   * const supported = await fief.supportsClaims(['email', 'tenant_id']);
+   * ```
+   */
+  public async supportsClaims(claims: string[], signal?: AbortSignal): Promise<boolean> {
+    const unsupported = await this.getUnsupportedValues('claims_supported', claims, signal);
+    return unsupported.length === 0;
+  }
+
+  /**
+   * Load the OpenID configuration and the JSON Web Key Set of the Fief server.
+   *
+   * Call it when your server boots, before accepting traffic,
+   * so the first requests don't have to wait for them.
+   *
+   * @param signal - Optional `AbortSignal` to cancel the requests to the Fief server.
+   *
+   * @example
+   * ```ts
+   * await fief.warmup();
+   * app.listen(3000);
+   * ```
+   */
+  public async warmup(signal?: AbortSignal): Promise<void> {
+    await this.getOpenIDConfiguration(signal);
+    await this.getJWKS(false, signal);
+  }
+
+  /**
+   * Make a request to the Fief server.
+   *
+   * Idempotent `GET` requests are retried after a network error or a server error,
+   * according to the retry policy. If the circuit breaker is open,
+   * the request fails immediately.
+   */
+  private async request(
+    input: string,
+    init: Parameters<typeof fetch>[1],
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const method = init?.method ? init.method.toUpperCase() : 'GET';
+    const maxRetries = method === 'GET' ? this.maxRetries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+      if (this.circuitBreaker !== undefined && !this.circuitBreaker.allowRequest()) {
+        this.onEvent({ type: 'circuitRejected', url: input });
+        throw new FiefCircuitOpenError();
+      }
+
+      let response: Response | undefined;
+      let error: unknown;
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        response = await this.fetchWithTimeout(input, init, signal);
+      } catch (err) {
+        if (signal?.aborted) {
+          // The Fief server didn't fail, don't keep a trial request pending forever
+          this.circuitBreaker?.releaseTrial();
+          throw err;
+        }
+        error = err;
+      }
+
+      if (response !== undefined && response.status < 500) {
+        this.circuitBreaker?.recordSuccess();
+        return response;
+      }
+      this.circuitBreaker?.recordFailure();
+
+      if (attempt >= maxRetries) {
+        if (response !== undefined) {
+          return response;
+        }
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, this.retryInitialDelay, this.retryMaxDelay);
+      this.onEvent({
+        type: 'retry',
+        url: input,
+        attempt: attempt + 1,
+        delay,
+        ...response !== undefined ? { status: response.status } : { error },
+      });
+      // eslint-disable-next-line no-await-in-loop
+      await wait(delay, signal);
+    }
+  }
+
+  /**
+   * Make a request with the configured `fetch` implementation,
+   * aborting it if the `signal` is aborted or if the timeout is reached.
+   */
+  private async fetchWithTimeout(
+    input: string,
+    init: Parameters<typeof fetch>[1],
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    if (this.timeout > 0) {
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeout * 1000);
+    }
+
+    try {
+      return await this.fetch(input, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) {
+        throw new FiefRequestTimeoutError();
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Make a request to the token endpoint.
+   *
+   * A fresh client authentication and DPoP proof are computed on each attempt,
+   * since client assertions and DPoP proofs can't be reused.
+   */
+  private async requestToken(
+    tokenEndpoint: string,
+    grantType: string,
+    parameters: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return this.requestWithDPoPNonce(async () => {
+      const [clientParams, clientHeaders] = await this.getClientAuthentication();
+      const payload = serializeQueryString({
+        grant_type: grantType,
+        ...clientParams,
+        ...parameters,
+      });
+      const dpopHeaders = await this.getDPoPHeaders('POST', tokenEndpoint);
+      return this.request(
+        tokenEndpoint,
+        {
+          method: 'POST',
+          body: payload,
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            ...clientHeaders,
+            ...dpopHeaders,
+          },
+        },
+        signal,
+      );
     });
+  }
 
-    const authorizationEndpoint = openIDConfiguration.authorization_endpoint;
-    return `${authorizationEndpoint}?${redirectURIParams.toString()}`;
+  /**
+   * Make a request to the Fief API, authenticated with an access token.
+   */
+  private async requestWithAccessToken(
+    url: string,
+    accessToken: FiefAccessToken,
+    init: { method: string, body?: string, headers?: Record<string, string> },
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return this.requestWithDPoPNonce(async () => {
+      const authorizationHeaders = await this.getAuthorizationHeaders(
+        accessToken,
+        init.method,
+        url,
+      );
+      return this.request(
+        url,
+        {
+          ...init,
+          headers: {
+            ...init.headers,
+            ...authorizationHeaders,
+          },
+        },
+        signal,
+      );
+    });
+  }
+
+  /**
+   * Send a request and retry it once if the Fief server asks for a new DPoP nonce,
+   * following [RFC 9449](https://www.rfc-editor.org/rfc/rfc9449#section-8).
+   *
+   * The last nonce provided by the Fief server is kept for the next DPoP proofs.
+   */
+  private async requestWithDPoPNonce(send: () => Promise<Response>): Promise<Response> {
+    if (this.dpopKey === undefined) {
+      return send();
+    }
+
+    const previousNonce = this.dpopNonce;
+    const response = await send();
+    this.updateDPoPNonce(response);
+    if (this.dpopNonce === previousNonce || !await Fief.isDPoPNonceError(response)) {
+      return response;
+    }
+
+    const retryResponse = await send();
+    this.updateDPoPNonce(retryResponse);
+    return retryResponse;
+  }
+
+  private updateDPoPNonce(response: Response) {
+    const nonce = response.headers.get('DPoP-Nonce');
+    if (nonce !== null) {
+      this.dpopNonce = nonce;
+    }
+  }
+
+  private async getDPoPHeaders(
+    method: string,
+    url: string,
+    accessToken?: string,
+  ): Promise<Record<string, string>> {
+    if (this.dpopKey === undefined) {
+      return {};
+    }
+    return { DPoP: await this.dpopKey.createProof(method, url, accessToken, this.dpopNonce) };
   }
 
   /**
-   * Return a {@link FiefTokenResponse} and {@link FiefUserInfo}
-   * in exchange of an authorization code.
-   *
-   * @param code - The authorization code.
-   * @param redirectURI - The exact same `redirectURI` you passed to the authorization URL.
-   * @param codeVerifier - The raw [PKCE](https://docs.fief.dev/going-further/pkce/) code
-   * used to generate the code challenge during authorization.
+   * Return the authorization headers of a request to the Fief API.
    *
-   * @returns A token response and user information.
+   * The scheme follows the `token_type` of the access token,
+   * as required by [RFC 9449](https://www.rfc-editor.org/rfc/rfc9449#section-7.1).
+   */
+  private async getAuthorizationHeaders(
+    accessToken: FiefAccessToken,
+    method: string,
+    url: string,
+  ): Promise<Record<string, string>> {
+    if (typeof accessToken === 'string') {
+      return { Authorization: `Bearer ${accessToken}` };
+    }
+    if (this.dpopKey === undefined || accessToken.token_type.toLowerCase() !== 'dpop') {
+      return { Authorization: `Bearer ${accessToken.access_token}` };
+    }
+    return {
+      Authorization: `DPoP ${accessToken.access_token}`,
+      ...await this.getDPoPHeaders(method, url, accessToken.access_token),
+    };
+  }
+
+  /**
+   * Check the DPoP proof of a request against the `cnf.jkt` claim of the access token,
+   * following [RFC 9449](https://www.rfc-editor.org/rfc/rfc9449#section-4.3).
    *
-   * @example
-   * ```ts
-   * const [tokens, userinfo] = await fief.authCallback('CODE', 'http://localhost:8000/callback');
-   * ```
+   * A bound access token without proof, or a proof with an unbound access token, is rejected.
    */
-  public async authCallback(
-    code: string,
-    redirectURI: string,
-    codeVerifier?: string,
-  ): Promise<[FiefTokenResponse, FiefUserInfo]> {
-    const openIDConfiguration = await this.getOpenIDConfiguration();
-    const payload = serializeQueryString({
-      grant_type: 'authorization_code',
-      client_id: this.clientId,
-      code,
-      redirect_uri: redirectURI,
-      ...this.clientSecret ? { client_secret: this.clientSecret } : {},
-      ...codeVerifier ? { code_verifier: codeVerifier } : {},
-    });
+  private async verifyDPoPBinding(
+    accessToken: string,
+    claims: jose.JWTPayload,
+    dpop?: { proof: string, method: string, url: string },
+  ): Promise<void> {
+    const jkt = (claims.cnf as { jkt?: string } | undefined)?.jkt;
+    if (dpop === undefined) {
+      if (jkt !== undefined) {
+        throw new FiefAccessTokenDPoPInvalid();
+      }
+      return;
+    }
+    if (jkt === undefined) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
 
-    const response = await this.fetch(
-      openIDConfiguration.token_endpoint,
-      {
-        method: 'POST',
-        body: payload,
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const data: FiefTokenResponse = await response.json();
+    let result: jose.JWTVerifyResult;
+    try {
+      result = await jose.jwtVerify(dpop.proof, jose.EmbeddedJWK, {
+        typ: 'dpop+jwt',
+        algorithms: DPOP_ALGORITHMS,
+        maxTokenAge: this.dpopProofMaxAge,
+        clockTolerance: this.clockTolerance,
+      });
+    } catch (err) {
+      if (err instanceof jose.errors.JOSEError) {
+        throw new FiefAccessTokenDPoPInvalid();
+      }
+      throw err;
+    }
+    const { payload, protectedHeader } = result;
 
-    const userinfo = await this.decodeIDToken({
-      idToken: data.id_token,
-      jwks: await this.getJWKS(),
-      code,
-      accessToken: data.access_token,
-    });
+    if (payload.htm !== dpop.method.toUpperCase()) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
 
-    return [data, userinfo];
+    let htuValid = false;
+    try {
+      htuValid = normalizeHTU(payload.htu as string) === normalizeHTU(dpop.url);
+    } catch (err) {
+      htuValid = false;
+    }
+    if (!htuValid) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
+
+    if (payload.ath !== await this.crypto.getCodeChallenge(accessToken, 'S256')) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
+
+    const thumbprint = await jose.calculateJwkThumbprint(protectedHeader.jwk as jose.JWK, 'sha256');
+    if (thumbprint !== jkt) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
+
+    const now = Date.now();
+    this.dpopProofJTIs.forEach((expiresAt, jti) => {
+      if (expiresAt <= now) {
+        this.dpopProofJTIs.delete(jti);
+      }
+    });
+    if (payload.jti === undefined || this.dpopProofJTIs.has(payload.jti)) {
+      throw new FiefAccessTokenDPoPInvalid();
+    }
+    this.dpopProofJTIs.set(
+      payload.jti,
+      now + (this.dpopProofMaxAge + this.clockTolerance) * 1000,
+    );
   }
 
   /**
-   * Return fresh {@link FiefTokenResponse} and {@link FiefUserInfo} in exchange of a refresh token.
-   *
-   * @param refreshToken - A valid refresh token.
-   * @param scope - Optional list of scopes to ask for.
-   * If not provided, the access token will share the same list of scopes
-   * as requested the first time.
-   * Otherwise, it should be a subset of the original list of scopes.
-   *
-   * @returns A token response and user information.
-   *
-   * @example
-   * ```ts
-   * const [tokens, userinfo] = await fief.authRefreshToken('REFRESH_TOKEN');
-   * ```
+   * Send the authorization parameters to the pushed authorization request endpoint
+   * and return the `request_uri` referencing them.
    */
-  public async authRefreshToken(
-    refreshToken: string,
-    scope?: string[],
-  ): Promise<[FiefTokenResponse, FiefUserInfo]> {
-    const openIDConfiguration = await this.getOpenIDConfiguration();
+  private async pushAuthorizationRequest(
+    endpoint: string,
+    authorizationParams: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const [clientParams, clientHeaders] = await this.getClientAuthentication();
     const payload = serializeQueryString({
-      grant_type: 'refresh_token',
-      client_id: this.clientId,
-      refresh_token: refreshToken,
-      ...scope ? { scope: scope.join(' ') } : {},
+      ...authorizationParams,
+      ...clientParams,
     });
 
-    const response = await this.fetch(
-      openIDConfiguration.token_endpoint,
+    const response = await this.request(
+      endpoint,
       {
         method: 'POST',
         body: payload,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
+          ...clientHeaders,
         },
       },
+      signal,
     );
     await Fief.handleRequestError(response);
-    const data: FiefTokenResponse = await response.json();
-
-    const userinfo = await this.decodeIDToken({
-      idToken: data.id_token,
-      jwks: await this.getJWKS(),
-      accessToken: data.access_token,
-    });
-
-    return [data, userinfo];
+    const data: { request_uri: string, expires_in: number } = await response.json();
+    return data.request_uri;
   }
 
   /**
-   * Check if an access token is valid and optionally that it has a required list of scopes,
-   * or a required list of [permissions](https://docs.fief.dev/getting-started/access-control/).
-   *
-   * @param accessToken - The access token to validate.
-   * @param requiredScopes - Optional list of scopes to check for.
-   * @param requiredACR - Optional minimum ACR level required. Read more: https://docs.fief.dev/going-further/acr/
-   * @param requiredPermissions - Optional list of permissions to check for.
-   *
-   * @returns {@link FiefAccessTokenInfo}
-   * @throws {@link FiefAccessTokenInvalid} if the access token is invalid.
-   * @throws {@link FiefAccessTokenExpired} if the access token is expired.
-   * @throws {@link FiefAccessTokenMissingScope} if a scope is missing.
-   * @throws {@link FiefAccessTokenMissingPermission} if a permission is missing.
-   *
-   * @example
-   * ```ts
-   * try {
-   *     accessTokenInfo = await fief.validateAccessToken('ACCESS_TOKEN', ['required_scope']);
-   *     console.log(accessTokenInfo);
-   * } catch (err) {
-   *     if (err instanceof FiefAccessTokenInvalid) {
-   *         console.error('Invalid access token');
-   *     } else if (err instanceof FiefAccessTokenExpired) {
-   *         console.error('Expired access token');
-   *     } else if (err instanceof FiefAccessTokenMissingScope) {
-   *         console.error('Missing required scope');
-   *     }
-   * }
-   * ```
+   * Return the body parameters and the headers authenticating the client
+   * on the Fief server endpoints, according to the client authentication method.
    */
-  public async validateAccessToken(
-    accessToken: string,
-    requiredScopes?: string[],
-    requiredACR?: FiefACR,
-    requiredPermissions?: string[],
-  ): Promise<FiefAccessTokenInfo> {
-    const signatureKeys = jose.createLocalJWKSet(await this.getJWKS());
-    try {
-      const { payload: claims } = await jose.jwtVerify(accessToken, signatureKeys);
-
-      const scope = claims.scope as (string | undefined);
-      if (scope === undefined) {
-        throw new FiefAccessTokenInvalid();
+  private async getClientAuthentication(): Promise<[
+    Record<string, string>,
+    Record<string, string>,
+  ]> {
+    const method = await this.getClientAuthMethod();
+
+    if (method === 'client_secret_post' || method === 'client_secret_basic') {
+      if (this.clientSecret === undefined) {
+        throw new FiefError(`A client secret is required for the ${method} authentication method.`);
       }
-      const accessTokenScopes = scope.split(' ');
-
-      if (requiredScopes) {
-        requiredScopes.forEach((requiredScope) => {
-          const inAccessTokenScopes = accessTokenScopes.some(
-            (accessTokenScope) => accessTokenScope === requiredScope,
-          );
-          if (!inAccessTokenScopes) {
-            throw new FiefAccessTokenMissingScope();
-          }
-        });
+      if (method === 'client_secret_basic') {
+        const credentials = `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret)}`;
+        return [{}, { Authorization: `Basic ${toBase64(credentials)}` }];
       }
+      return [{ client_id: this.clientId, client_secret: this.clientSecret }, {}];
+    }
 
-      const acr = claims.acr as (FiefACR | undefined);
-      if (acr === undefined || !Object.values(FiefACR).includes(acr)) {
-        throw new FiefAccessTokenInvalid();
-      }
-      if (requiredACR) {
-        if (compareACR(acr, requiredACR) < 0) {
-          throw new FiefAccessTokenACRTooLow();
-        }
-      }
+    if (method === 'private_key_jwt') {
+      return [
+        {
+          client_id: this.clientId,
+          client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+          client_assertion: await this.getClientAssertion(),
+        },
+        {},
+      ];
+    }
 
-      const permissions = claims.permissions as (string[] | undefined);
-      if (permissions === undefined) {
-        throw new FiefAccessTokenInvalid();
+    return [{ client_id: this.clientId }, {}];
+  }
+
+  private async getClientAuthMethod(): Promise<FiefClientAuthMethod> {
+    if (this.tokenEndpointAuthMethod !== undefined) {
+      return this.tokenEndpointAuthMethod;
+    }
+
+    const openIDConfiguration = await this.getOpenIDConfiguration();
+    const supportedMethods: string[] | undefined = (
+      openIDConfiguration.token_endpoint_auth_methods_supported
+    );
+    const isSupported = (method: FiefClientAuthMethod) => (
+      supportedMethods === undefined || supportedMethods.includes(method)
+    );
+
+    if (this.clientAssertionJWK !== undefined && isSupported('private_key_jwt')) {
+      return 'private_key_jwt';
+    }
+    if (this.clientSecret !== undefined) {
+      if (isSupported('client_secret_post')) {
+        return 'client_secret_post';
       }
-      if (requiredPermissions) {
-        requiredPermissions.forEach((requiredPermission) => {
-          const inAccessTokenPermissions = permissions.some(
-            (permission) => permission === requiredPermission,
-          );
-          if (!inAccessTokenPermissions) {
-            throw new FiefAccessTokenMissingPermission();
-          }
-        });
+      if (isSupported('client_secret_basic')) {
+        return 'client_secret_basic';
       }
+    }
+    return 'none';
+  }
 
-      return {
-        id: claims.sub as string,
-        scope: accessTokenScopes,
-        acr,
-        permissions,
-        access_token: accessToken,
-      };
+  /**
+   * Return a short-lived client assertion signed with the client assertion key,
+   * following [RFC 7523](https://www.rfc-editor.org/rfc/rfc7523#section-3).
+   */
+  private async getClientAssertion(): Promise<string> {
+    if (this.clientAssertionJWK === undefined) {
+      throw new FiefError('A client assertion key is required for the private_key_jwt authentication method.');
+    }
+    const clientAssertionKey = await this.getClientAssertionKey(this.clientAssertionJWK);
+
+    const openIDConfiguration = await this.getOpenIDConfiguration();
+    const clientAssertion = new jose.SignJWT({})
+      .setProtectedHeader({
+        alg: this.clientAssertionAlgorithm,
+        ...this.clientAssertionJWK.kid ? { kid: this.clientAssertionJWK.kid } : {},
+      })
+      .setIssuer(this.clientId)
+      .setSubject(this.clientId)
+      .setAudience(openIDConfiguration.token_endpoint)
+      .setJti(await this.crypto.generateNonce())
+      .setIssuedAt()
+      .setExpirationTime('60s')
+    ;
+    try {
+      return await clientAssertion.sign(clientAssertionKey);
     } catch (err) {
-      if (err instanceof jose.errors.JWTExpired) {
-        throw new FiefAccessTokenExpired();
-      } else if (err instanceof jose.errors.JOSEError) {
-        throw new FiefAccessTokenInvalid();
-      }
-      throw err;
+      throw this.getInvalidClientAssertionKeyError();
     }
   }
 
   /**
-   * Return fresh {@link FiefUserInfo} from the Fief API using a valid access token.
-   *
-   * @param accessToken - A valid access token.
-   *
-   * @returns Fresh user information.
-   *
-   * @example
-   * ```ts
-   * userinfo = await fief.userinfo('ACCESS_TOKEN');
-   * ```
+   * Import the client assertion key, once.
    */
-  public async userinfo(accessToken: string): Promise<FiefUserInfo> {
-    const openIDConfiguration = await this.getOpenIDConfiguration();
-    const response = await this.fetch(
-      openIDConfiguration.userinfo_endpoint,
-      {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const data: FiefUserInfo = await response.json();
-    return data;
+  private async getClientAssertionKey(jwk: jose.JWK): Promise<jose.KeyLike | Uint8Array> {
+    if (this.clientAssertionKey === undefined) {
+      this.clientAssertionKey = jose
+        .importJWK(jwk, this.clientAssertionAlgorithm)
+        .catch(() => {
+          throw this.getInvalidClientAssertionKeyError();
+        })
+      ;
+    }
+    return this.clientAssertionKey;
   }
 
   /**
-   * Updates user information with the Fief API using a valid access token.
-   *
-   * @param accessToken - A valid access token.
-   * @param data - An object containing the data to update.
-   *
-   * @returns Updated user information.
+   * Return the error raised when the client assertion key can't be used.
+   */
+  private getInvalidClientAssertionKeyError(): FiefError {
+    return new FiefError(`clientAssertionKey should be a valid private key for the ${this.clientAssertionAlgorithm} algorithm.`);
+  }
+
+  /**
+   * Return the OpenID configuration of the Fief server.
    *
-   * @example
-   * To update [user field](https://docs.fief.dev/getting-started/user-fields/) values,
-   * you need to nest them into a `fields` object, indexed by their slug.
-   * ```ts
-   * userinfo = await fief.update_profile('ACCESS_TOKEN', { fields: { first_name: 'Anne' } })
-   * ```
+   * Concurrent calls share the same request to the Fief server.
+   * The `signal` only cancels the wait of the caller, not the shared request.
    */
-  public async updateProfile(
-    accessToken: string,
-    data: Record<string, any>,
-  ): Promise<FiefUserInfo> {
-    const updateProfileEndpoint = `${this.baseURL}/api/profile`;
-    const response = await this.fetch(
-      updateProfileEndpoint,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
+  private async getOpenIDConfiguration(signal?: AbortSignal): Promise<FiefOpenIDConfiguration> {
+    if (this.openIDConfiguration !== undefined) {
+      return this.openIDConfiguration;
+    }
+    if (this.openIDConfigurationRequest === undefined) {
+      this.openIDConfigurationRequest = this.fetchOpenIDConfiguration();
+    }
+    return withSignal(this.openIDConfigurationRequest, signal);
+  }
+
+  private async fetchOpenIDConfiguration(): Promise<FiefOpenIDConfiguration> {
+    try {
+      const cacheKey = `fief-openid-configuration:${this.baseURL}`;
+      const cachedData = await this.getCachedMetadata(cacheKey);
+      if (cachedData !== null) {
+        this.openIDConfiguration = cachedData as FiefOpenIDConfiguration;
+        return this.openIDConfiguration;
+      }
+
+      const response = await this.request(
+        `${this.baseURL}/.well-known/openid-configuration`,
+        {
+          method: 'GET',
         },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const userinfo = await response.json();
-    return userinfo;
+      );
+
+      await Fief.handleRequestError(response);
+
+      const data: FiefOpenIDConfiguration = await response.json();
+      this.openIDConfiguration = data;
+      await this.setCachedMetadata(cacheKey, data, this.openIDConfigurationCacheTTL);
+      return data;
+    } finally {
+      this.openIDConfigurationRequest = undefined;
+    }
   }
 
   /**
-   * Changes the user password with the Fief API using a valid access token.
-   *
-   * **An access token with an ACR of at least level 1 is required.**
-   *
-   * @param accessToken - A valid access token.
-   * @param newPassword - The new password.
+   * Return the values not listed in a `*_supported` field of the OpenID configuration.
    *
-   * @returns Updated user information.
-   *
-   * @example
-   * ```ts
-   * userinfo = await fief.changePassword('ACCESS_TOKEN', 'herminetincture')
-   * ```
+   * Following the OpenID Connect Discovery specification, a missing field isn't a restriction.
    */
-  public async changePassword(
-    accessToken: string,
-    newPassword: string,
-  ): Promise<FiefUserInfo> {
-    const updateProfileEndpoint = `${this.baseURL}/api/password`;
-    const response = await this.fetch(
-      updateProfileEndpoint,
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ password: newPassword }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const userinfo = await response.json();
-    return userinfo;
+  private async getUnsupportedValues(
+    key: FiefSupportedValuesKey,
+    values: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    const supportedValues = openIDConfiguration[key];
+    if (supportedValues === undefined) {
+      return [];
+    }
+    return values.filter((value) => !supportedValues.includes(value));
+  }
+
+  private async assertSupported(
+    key: FiefSupportedValuesKey,
+    values: string[],
+    label: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const unsupported = await this.getUnsupportedValues(key, values, signal);
+    if (unsupported.length > 0) {
+      throw new FiefUnsupportedCapabilityError(
+        `The Fief server does not support the ${label}: ${unsupported.join(', ')}.`,
+      );
+    }
   }
 
   /**
-   * Requests an email change with the Fief API using a valid access token.
-   *
-   * The user will receive a verification code on this new email address.
-   * It shall be used with the method {@link emailVerify} to complete the modification.
-   *
-   * **An access token with an ACR of at least level 1 is required.**
-   *
-   * @param accessToken - A valid access token.
-   * @param newPassword - The new email address.
+   * Return the JSON Web Key Set of the Fief server.
    *
-   * @returns Updated user information.
+   * The key set is cached for `jwksCacheTTL` seconds. If `forceRefresh` is `true`,
+   * the key set is fetched again, unless the last attempt is more recent
+   * than `jwksMinRefreshInterval` seconds.
    *
-   * @example
-   * ```ts
-   * userinfo = await fief.emailChange('ACCESS_TOKEN', 'anne@nantes.city')
-   * ```
+   * Concurrent calls share the same request to the Fief server.
+   * The `signal` only cancels the wait of the caller, not the shared request.
    */
-  public async emailChange(
-    accessToken: string,
-    email: string,
-  ): Promise<FiefUserInfo> {
-    const updateProfileEndpoint = `${this.baseURL}/api/email/change`;
-    const response = await this.fetch(
-      updateProfileEndpoint,
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ email }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const userinfo = await response.json();
-    return userinfo;
+  private async getJWKS(
+    forceRefresh: boolean,
+    signal?: AbortSignal,
+  ): Promise<jose.JSONWebKeySet> {
+    if (this.jwks !== undefined && this.jwksPrefetched) {
+      return this.jwks;
+    }
+
+    if (this.jwks !== undefined) {
+      const now = Date.now();
+      const isStale = forceRefresh || now - this.jwksFetchedAt >= this.jwksCacheTTL * 1000;
+      const canRefresh = now - this.jwksLastFetchAttemptAt >= this.jwksMinRefreshInterval * 1000;
+      if (!isStale || (!canRefresh && this.jwksRequest === undefined)) {
+        return this.jwks;
+      }
+    }
+
+    if (this.jwksRequest === undefined) {
+      this.jwksLastFetchAttemptAt = Date.now();
+      this.jwksRequest = this.fetchJWKS();
+    }
+    return withSignal(this.jwksRequest, signal);
   }
 
   /**
-   * Verifies the user email with the Fief API using a valid access token and verification code.
-   *
-   *
-   * **An access token with an ACR of at least level 1 is required.**
-   *
-   * @param accessToken - A valid access token.
-   * @param newPassword - The new email address.
-   *
-   * @returns Updated user information.
+   * Fetch the JSON Web Key Set of the Fief server.
    *
-   * @example
-   * ```ts
-   * userinfo = await fief.emailVerify('ACCESS_TOKEN', 'ABCDE')
-   * ```
+   * On a cold start, the key set is loaded from the metadata cache, if available.
+   * If the Fief server can't be reached, the stale key set is returned, if any.
    */
-  public async emailVerify(
-    accessToken: string,
-    code: string,
-  ): Promise<FiefUserInfo> {
-    const updateProfileEndpoint = `${this.baseURL}/api/email/verify`;
-    const response = await this.fetch(
-      updateProfileEndpoint,
-      {
-        method: 'POST',
-        body: JSON.stringify({ code }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
+  private async fetchJWKS(): Promise<jose.JSONWebKeySet> {
+    const cacheKey = this.getJWKSCacheKey();
+    try {
+      if (this.jwks === undefined) {
+        const cachedData = await this.getCachedMetadata(cacheKey);
+        if (cachedData !== null && cachedData.jwks !== undefined) {
+          this.jwks = cachedData.jwks as jose.JSONWebKeySet;
+          this.jwksFetchedAt = cachedData.fetchedAt;
+          // Loading from cache isn't a fetch attempt, the key set can be refreshed right away
+          this.jwksLastFetchAttemptAt = 0;
+          return this.jwks;
+        }
+      }
+
+      const openIDConfiguration = await this.getOpenIDConfiguration();
+      const response = await this.request(
+        openIDConfiguration.jwks_uri,
+        {
+          method: 'GET',
         },
-      },
-    );
-    await Fief.handleRequestError(response);
-    const userinfo = await response.json();
-    return userinfo;
+      );
+      await Fief.handleRequestError(response);
+      const data: jose.JSONWebKeySet = await response.json();
+      this.jwks = data;
+      this.jwksFetchedAt = Date.now();
+      await this.setCachedMetadata(
+        cacheKey,
+        { jwks: data, fetchedAt: this.jwksFetchedAt },
+        this.jwksCacheTTL,
+      );
+      return data;
+    } catch (err) {
+      if (this.jwks !== undefined) {
+        return this.jwks;
+      }
+      throw err;
+    } finally {
+      this.jwksRequest = undefined;
+    }
   }
 
   /**
-   * Returns a logout URL.
-   * If you redirect the user to this page, Fief will clear the session stored on its side.
-   *
-   * **You're still responsible for clearing your own session mechanism if any.**
-   *
-   * @param parameters.redirectURI - A valid URL where the user will be
-   * redirected after the logout process.
-   *
-   * @returns The logout URL.
+   * Read a value from the metadata cache.
    *
-   * @example
-   * ```ts
-   * const logoutURL = await fief.getLogoutURL({
-   *    redirectURI: 'http://localhost:8000',
-   * });
-   * ```
+   * A failing cache shouldn't prevent to reach the Fief server, so errors are ignored.
    */
-  public async getLogoutURL(parameters: { redirectURI: string }): Promise<string> {
-    const params = new URLSearchParams({
-      redirect_uri: parameters.redirectURI,
-    });
-    return `${this.baseURL}/logout?${params.toString()}`;
+  private async getCachedMetadata(key: string): Promise<Record<string, any> | null> {
+    try {
+      return await this.metadataCache.get(key);
+    } catch (err) {
+      return null;
+    }
   }
 
-  private async getOpenIDConfiguration(): Promise<Record<string, any>> {
-    if (this.openIDConfiguration !== undefined) {
-      return this.openIDConfiguration;
+  private getJWKSCacheKey(): string {
+    return `fief-jwks:${this.baseURL}`;
+  }
+
+  private async setCachedMetadata(
+    key: string,
+    value: Record<string, any>,
+    ttl: number,
+  ): Promise<void> {
+    try {
+      await this.metadataCache.set(key, value, ttl);
+    } catch (err) {
+      // Ignore cache errors
     }
-    const response = await this.fetch(
-      `${this.baseURL}/.well-known/openid-configuration`,
-      {
-        method: 'GET',
-      },
-    );
+  }
 
-    await Fief.handleRequestError(response);
+  /**
+   * Verify the signature and the registered claims of a JWT
+   * against the JSON Web Key Set of the Fief server.
+   *
+   * If the token is signed with a key we don't know, the key set is refreshed
+   * once to handle key rotation.
+   */
+  private async verifyJWT(
+    token: string | Uint8Array,
+    signal?: AbortSignal,
+  ): Promise<jose.JWTVerifyResult> {
+    const openIDConfiguration = await this.getOpenIDConfiguration(signal);
+    const options: jose.JWTVerifyOptions = {
+      ...this.verifyIssuer ? { issuer: openIDConfiguration.issuer } : {},
+      ...this.verifyAudience ? { audience: [this.clientId, ...this.extraAudiences] } : {},
+      algorithms: this.algorithms,
+      clockTolerance: this.clockTolerance,
+    };
+
+    let result: jose.JWTVerifyResult;
+    try {
+      result = await jose.jwtVerify(
+        token,
+        jose.createLocalJWKSet(await this.getJWKS(false, signal)),
+        options,
+      );
+    } catch (err) {
+      if (!(err instanceof jose.errors.JWKSNoMatchingKey)) {
+        throw err;
+      }
+      // The fetched key set overwrites the outdated one in the shared cache
+      result = await jose.jwtVerify(
+        token,
+        jose.createLocalJWKSet(await this.getJWKS(true, signal)),
+        options,
+      );
+    }
 
-    const data = response.json();
-    this.openIDConfiguration = data;
-    return data;
+    const { azp } = result.payload;
+    if (this.verifyAudience && azp !== undefined && azp !== this.clientId) {
+      throw new jose.errors.JWTClaimValidationFailed('unexpected "azp" claim value', 'azp', 'check_failed');
+    }
+
+    return result;
   }
 
-  private async getJWKS(): Promise<jose.JSONWebKeySet> {
-    if (this.jwks !== undefined) {
-      return this.jwks;
+  /**
+   * Return the claims of an access token from its introspection,
+   * cached for `cacheTTL` seconds.
+   */
+  private async getIntrospectionClaims(
+    accessToken: string,
+    cacheTTL: number,
+    signal?: AbortSignal,
+  ): Promise<FiefTokenIntrospection> {
+    const now = Date.now();
+
+    let introspection: FiefTokenIntrospection;
+    const cached = this.introspectionCache.get(accessToken);
+    if (cached !== undefined && cached.expiresAt > now) {
+      ({ introspection } = cached);
+    } else {
+      introspection = await this.introspectToken(accessToken, 'access_token', signal);
+      if (cacheTTL > 0) {
+        this.introspectionCache.forEach(({ expiresAt }, key) => {
+          if (expiresAt <= now) {
+            this.introspectionCache.delete(key);
+          }
+        });
+        this.introspectionCache.set(
+          accessToken,
+          { introspection, expiresAt: now + cacheTTL * 1000 },
+        );
+      }
     }
-    const openIDConfiguration = await this.getOpenIDConfiguration();
-    const response = await this.fetch(
-      openIDConfiguration.jwks_uri,
-      {
-        method: 'GET',
-      },
-    );
-    await Fief.handleRequestError(response);
-    const data: jose.JSONWebKeySet = await response.json();
-    this.jwks = data;
-    return data;
+
+    if (!introspection.active) {
+      throw new FiefAccessTokenInvalid();
+    }
+    if (introspection.exp !== undefined && introspection.exp * 1000 <= now) {
+      throw new FiefAccessTokenExpired();
+    }
+    if (this.verifyAudience && introspection.client_id !== undefined) {
+      const audiences = [this.clientId, ...this.extraAudiences];
+      if (!audiences.includes(introspection.client_id)) {
+        throw new FiefAccessTokenAudienceInvalid();
+      }
+    }
+
+    return introspection;
   }
 
   private async decodeIDToken(parameters: {
     idToken: string;
-    jwks: jose.JSONWebKeySet;
     code?: string;
     accessToken?: string;
-  }): Promise<FiefUserInfo> {
+    nonce?: string;
+    signal?: AbortSignal;
+  }): Promise<FiefUserInfo<F>> {
     const {
       idToken,
-      jwks,
       code,
       accessToken,
+      nonce,
+      signal,
     } = parameters;
-    const signatureKeys = jose.createLocalJWKSet(jwks);
 
     try {
       let signedToken: string | Uint8Array = idToken;
@@ -801,7 +2812,7 @@ export class Fief {
         signedToken = plaintext;
       }
 
-      const { payload: claims } = await jose.jwtVerify(signedToken, signatureKeys);
+      const { payload: claims } = await this.verifyJWT(signedToken, signal);
 
       if (claims.c_hash !== undefined) {
         if (!code || !(await this.crypto.isValidHash(code, claims.c_hash as string))) {
@@ -818,19 +2829,241 @@ export class Fief {
         }
       }
 
-      return claims as FiefUserInfo;
+      if (nonce !== undefined && claims.nonce !== nonce) {
+        throw new FiefIdTokenNonceInvalid();
+      }
+
+      return this.validateUserFields(claims);
     } catch (err) {
-      if (err instanceof jose.errors.JOSEError) {
+      if (err instanceof jose.errors.JWTClaimValidationFailed && err.claim === 'iss') {
+        throw new FiefIdTokenIssuerInvalid();
+      } else if (
+        err instanceof jose.errors.JWTClaimValidationFailed
+        && (err.claim === 'aud' || err.claim === 'azp')
+      ) {
+        throw new FiefIdTokenAudienceInvalid();
+      } else if (err instanceof jose.errors.JOSEAlgNotAllowed) {
+        throw new FiefIdTokenAlgorithmInvalid();
+      } else if (err instanceof jose.errors.JOSEError) {
         throw new FiefIdTokenInvalid();
       }
       throw err;
     }
   }
 
+  /**
+   * Return the user information with its user fields checked by the user fields validator, if any.
+   */
+  private validateUserFields(userinfo: Record<string, any>): FiefUserInfo<F> {
+    if (this.userFieldsValidator === undefined || userinfo.fields === undefined) {
+      return userinfo as FiefUserInfo<F>;
+    }
+    try {
+      return { ...userinfo, fields: this.userFieldsValidator(userinfo.fields) } as FiefUserInfo<F>;
+    } catch (err) {
+      throw new FiefUserFieldsInvalid(err instanceof Error ? err.message : undefined);
+    }
+  }
+
+  /**
+   * Wait for the polling interval and request the device token,
+   * then make the next attempt if the authorization is still pending.
+   */
+  private async pollDeviceTokenAttempt(
+    tokenEndpoint: string,
+    deviceCode: string,
+    interval: number,
+    expiresAt: number,
+    signal?: AbortSignal,
+  ): Promise<[FiefTokenResponse, FiefUserInfo<F>]> {
+    if (Date.now() >= expiresAt) {
+      throw new FiefDeviceAuthorizationExpired();
+    }
+
+    await wait(interval, signal);
+
+    const response = await this.requestToken(
+      tokenEndpoint,
+      'urn:ietf:params:oauth:grant-type:device_code',
+      { device_code: deviceCode },
+      signal,
+    );
+
+    if (response.status >= 200 && response.status <= 299) {
+      const data: FiefTokenResponse = await response.json();
+      const userinfo = await this.decodeIDToken({
+        idToken: data.id_token,
+        accessToken: data.access_token,
+        signal,
+      });
+      return [data, userinfo];
+    }
+
+    const requestError = await Fief.getRequestError(response);
+    switch (requestError.error) {
+      case 'authorization_pending':
+        return this.pollDeviceTokenAttempt(tokenEndpoint, deviceCode, interval, expiresAt, signal);
+      case 'slow_down':
+        return this.pollDeviceTokenAttempt(
+          tokenEndpoint,
+          deviceCode,
+          interval + 5,
+          expiresAt,
+          signal,
+        );
+      case 'expired_token':
+        throw new FiefDeviceAuthorizationExpired();
+      case 'access_denied':
+        throw new FiefDeviceAuthorizationDenied();
+      default:
+        throw requestError;
+    }
+  }
+
+  /**
+   * Check if an error response of the Fief server asks for a DPoP nonce,
+   * either from the token endpoint or from the Fief API.
+   */
+  private static async isDPoPNonceError(response: Response): Promise<boolean> {
+    if (response.status === 401) {
+      const authenticate = response.headers.get('WWW-Authenticate');
+      return authenticate !== null && authenticate.includes('use_dpop_nonce');
+    }
+    if (response.status === 400) {
+      const error = await Fief.getRequestError(response.clone());
+      return error.error === 'use_dpop_nonce';
+    }
+    return false;
+  }
+
   private static async handleRequestError(response: Response) {
     if (response.status < 200 || response.status > 299) {
-      const detail = await response.text();
-      throw new FiefRequestError(response.status, detail);
+      throw await Fief.getRequestError(response);
+    }
+  }
+
+  /**
+   * Return the error matching an error response of the Fief server.
+   */
+  private static async getRequestError(response: Response): Promise<FiefRequestError> {
+    const detail = await response.text();
+    const error = new FiefRequestError(response.status, detail);
+    switch (error.error) {
+      case 'invalid_client':
+        return new FiefInvalidClientError(response.status, detail);
+      case 'invalid_grant':
+        return new FiefInvalidGrantError(response.status, detail);
+      case 'invalid_scope':
+        return new FiefInvalidScopeError(response.status, detail);
+      default:
+        return error;
+    }
+  }
+}
+
+/**
+ * Helper class keeping an access token obtained
+ * with the [client credentials grant](https://www.rfc-editor.org/rfc/rfc6749#section-4.4).
+ *
+ * The token is cached until shortly before it expires.
+ * If the Fief server doesn't tell the lifetime of the token,
+ * it's cached until {@link FiefClientCredentialsTokenManager#clear} is called.
+ * Concurrent calls share the same request to the Fief server.
+ *
+ * @example
+ * ```ts
+ * const tokenManager = new FiefClientCredentialsTokenManager(fief, ['castles:read']);
+ * const accessToken = await tokenManager.getAccessToken();
+ * ```
+ */
+export class FiefClientCredentialsTokenManager {
+  private client: Fief;
+
+  private scope?: string[];
+
+  private leeway: number;
+
+  private tokenResponse: FiefTokenResponse | null;
+
+  private refreshAt: number;
+
+  private pendingRequest: Promise<FiefTokenResponse> | null;
+
+  private generation: number;
+
+  /**
+   * @param client - Instance of a {@link Fief} client.
+   * @param scope - Optional list of scopes to ask for.
+   * @param leeway - Number of seconds before the expiration
+   * from which a new token is requested. Defaults to `60`.
+   * It's capped to half the lifetime of the token.
+   */
+  constructor(client: Fief, scope?: string[], leeway: number = 60) {
+    this.client = client;
+    this.scope = scope;
+    this.leeway = leeway;
+    this.tokenResponse = null;
+    this.refreshAt = 0;
+    this.pendingRequest = null;
+    this.generation = 0;
+  }
+
+  /**
+   * Return a valid access token, requesting a new one if needed.
+   *
+   * @returns An access token.
+   */
+  public async getAccessToken(): Promise<string> {
+    const tokenResponse = await this.getTokenResponse();
+    return tokenResponse.access_token;
+  }
+
+  /**
+   * Return a valid {@link FiefTokenResponse}, requesting a new one if needed.
+   *
+   * @returns A token response.
+   */
+  public async getTokenResponse(): Promise<FiefTokenResponse> {
+    if (this.tokenResponse !== null && Date.now() < this.refreshAt) {
+      return this.tokenResponse;
+    }
+
+    if (this.pendingRequest === null) {
+      const { generation } = this;
+      this.pendingRequest = this.client.authClientCredentials(this.scope)
+        .then((tokenResponse) => {
+          // The token was cleared while the request was pending
+          if (generation !== this.generation) {
+            return tokenResponse;
+          }
+          this.tokenResponse = tokenResponse;
+          if (typeof tokenResponse.expires_in === 'number') {
+            const lifetime = tokenResponse.expires_in * 1000;
+            this.refreshAt = Date.now() + lifetime - Math.min(this.leeway * 1000, lifetime / 2);
+          } else {
+            this.refreshAt = Infinity;
+          }
+          return tokenResponse;
+        })
+        .finally(() => {
+          if (generation === this.generation) {
+            this.pendingRequest = null;
+          }
+        })
+      ;
     }
+    return this.pendingRequest;
+  }
+
+  /**
+   * Forget the current token, so a new one is requested on the next call.
+   *
+   * A request pending at this moment won't be kept.
+   */
+  public clear(): void {
+    this.generation += 1;
+    this.tokenResponse = null;
+    this.refreshAt = 0;
+    this.pendingRequest = null;
   }
 }
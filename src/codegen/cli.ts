@@ -0,0 +1,107 @@
+/**
+ * `fief-js` command-line interface.
+ *
+ * @module
+ */
+import { readFile, writeFile } from 'fs/promises';
+
+import {
+  fetchUserFields,
+  FiefUserFieldDefinition,
+  generateUserFields,
+  parseUserFields,
+} from './index';
+
+const USAGE = `Usage: fief-js generate-user-fields [options]
+
+Generate a TypeScript interface and a runtime validator from the user fields of a Fief tenant.
+
+Options:
+  --input <file>            JSON file with the user fields, as exported from the Fief admin API
+  --base-url <url>          Base URL of the Fief tenant, to retrieve the user fields from the admin API
+  --api-key <key>           Admin API key. Defaults to the FIEF_API_KEY environment variable
+  --output <file>           File to write the generated code to. Defaults to the standard output
+  --interface-name <name>   Name of the generated interface. Defaults to UserFields
+  --help                    Show this message
+`;
+
+const OPTIONS = ['input', 'base-url', 'api-key', 'output', 'interface-name'];
+
+/**
+ * Parse the command-line arguments into a command and its options.
+ */
+const parseArguments = (argv: string[]): [string | undefined, Record<string, string>] => {
+  const [command, ...rest] = argv;
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 1) {
+    const argument = rest[i];
+    if (argument === '--help') {
+      options.help = 'true';
+    } else {
+      const separatorIndex = argument.indexOf('=');
+      const name = argument.slice(2, separatorIndex !== -1 ? separatorIndex : undefined);
+      const inlineValue = separatorIndex !== -1 ? argument.slice(separatorIndex + 1) : undefined;
+      if (!argument.startsWith('--') || !OPTIONS.includes(name)) {
+        throw new Error(`Unknown option "${argument}".`);
+      }
+      const value = inlineValue !== undefined ? inlineValue : rest[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for option "--${name}".`);
+      }
+      if (inlineValue === undefined) {
+        i += 1;
+      }
+      options[name] = value;
+    }
+  }
+  return [command, options];
+};
+
+/**
+ * Run the `fief-js` command-line interface.
+ *
+ * @param argv - Command-line arguments, without the executable and the script path.
+ *
+ * @returns The exit code.
+ *
+ * @example
+ * ```bash
+ * npx fief-js generate-user-fields --base-url https://example.fief.dev --output src/user-fields.ts
+ * ```
+ */
+export const main = async (argv: string[]): Promise<number> => {
+  try {
+    const [command, options] = parseArguments(argv);
+    if (command === '--help' || command === undefined || options.help !== undefined) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (command !== 'generate-user-fields') {
+      throw new Error(`Unknown command "${command}".`);
+    }
+
+    let fields: FiefUserFieldDefinition[];
+    if (options.input !== undefined) {
+      fields = parseUserFields(JSON.parse(await readFile(options.input, 'utf-8')));
+    } else if (options['base-url'] !== undefined) {
+      const apiKey = options['api-key'] !== undefined ? options['api-key'] : process.env.FIEF_API_KEY;
+      if (!apiKey) {
+        throw new Error('An admin API key is required with --api-key or FIEF_API_KEY.');
+      }
+      fields = await fetchUserFields(options['base-url'].replace(/\/$/, ''), apiKey);
+    } else {
+      throw new Error('Either --input or --base-url is required.');
+    }
+
+    const code = generateUserFields(fields, { interfaceName: options['interface-name'] });
+    if (options.output !== undefined) {
+      await writeFile(options.output, code);
+    } else {
+      process.stdout.write(code);
+    }
+    return 0;
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return 1;
+  }
+};
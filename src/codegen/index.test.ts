@@ -0,0 +1,236 @@
+import fetchMock from 'fetch-mock';
+import {
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as ts from 'typescript';
+
+import { main } from './cli';
+import {
+  fetchUserFields,
+  FiefCodegenError,
+  FiefUserFieldDefinition,
+  generateUserFields,
+  parseUserFields,
+} from './index';
+
+const HOSTNAME = 'https://bretagne.fief.dev';
+
+const fields: FiefUserFieldDefinition[] = [
+  {
+    name: 'First name', slug: 'first_name', type: 'string', configuration: { required: true },
+  },
+  {
+    name: 'Age', slug: 'age', type: 'integer', configuration: { required: false },
+  },
+  {
+    name: 'Newsletter', slug: 'newsletter', type: 'boolean', configuration: { required: true },
+  },
+  {
+    name: 'Birthdate', slug: 'birthdate', type: 'date', configuration: { required: false },
+  },
+  {
+    name: 'Gender',
+    slug: 'gender',
+    type: 'choice',
+    configuration: { required: false, choices: [['F', 'Female'], ['M', 'Male']] },
+  },
+  {
+    name: 'Address', slug: 'address', type: 'address', configuration: { required: false },
+  },
+  {
+    name: 'Phone', slug: 'phone-number', type: 'phone_number', configuration: {},
+  },
+];
+
+const loadValidator = (code: string): (value: unknown) => unknown => {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2015 },
+  });
+  const exports: Record<string, any> = {};
+  // eslint-disable-next-line no-new-func
+  new Function('exports', outputText)(exports);
+  return exports.validateUserFields;
+};
+
+describe('generateUserFields', () => {
+  it('should generate the interface', () => {
+    const code = generateUserFields(fields);
+
+    expect(code).toContain('export interface UserFieldsAddress {');
+    expect(code).toContain('export interface UserFields {');
+    expect(code).toContain('  first_name: string;');
+    expect(code).toContain('  age?: number | null;');
+    expect(code).toContain('  newsletter: boolean;');
+    expect(code).toContain('  birthdate?: string | null;');
+    expect(code).toContain('  gender?: "F" | "M" | null;');
+    expect(code).toContain('  address?: UserFieldsAddress | null;');
+    expect(code).toContain('  "phone-number"?: string | null;');
+    expect(code).toContain('export const validateUserFields = (fields: unknown): UserFields => {');
+  });
+
+  it('should generate valid TypeScript', () => {
+    const code = generateUserFields(fields);
+    const { diagnostics } = ts.transpileModule(code, { reportDiagnostics: true });
+    expect(diagnostics).toHaveLength(0);
+  });
+
+  it('should use a custom interface name', () => {
+    const code = generateUserFields(fields, { interfaceName: 'Profile' });
+    expect(code).toContain('export interface Profile {');
+    expect(code).toContain('export interface ProfileAddress {');
+    expect(code).toContain('export const validateProfile = (fields: unknown): Profile => {');
+  });
+
+  it('should throw on invalid definitions', () => {
+    expect(() => generateUserFields(fields, { interfaceName: 'User Fields' })).toThrow(FiefCodegenError);
+    expect(() => generateUserFields([
+      {
+        name: 'Gender', slug: 'gender', type: 'choice', configuration: {},
+      },
+    ])).toThrow(FiefCodegenError);
+    expect(() => generateUserFields([
+      {
+        name: 'Color', slug: 'color', type: 'color' as any, configuration: {},
+      },
+    ])).toThrow(FiefCodegenError);
+  });
+
+  describe('validator', () => {
+    const validate = loadValidator(generateUserFields(fields));
+    const validFields = {
+      first_name: 'Anne',
+      age: 46,
+      newsletter: true,
+      birthdate: '1477-01-25',
+      gender: 'F',
+      address: {
+        line1: 'Château des ducs de Bretagne',
+        postal_code: '44000',
+        city: 'Nantes',
+        country: 'FR',
+      },
+    };
+
+    it('should return valid user fields', () => {
+      expect(validate(validFields)).toBe(validFields);
+      expect(validate({ first_name: 'Anne', newsletter: false, age: null })).toBeDefined();
+    });
+
+    it.each([
+      ['not an object', 'Anne'],
+      ['missing required field', { newsletter: true }],
+      ['invalid string', { ...validFields, first_name: 42 }],
+      ['invalid integer', { ...validFields, age: 46.5 }],
+      ['invalid boolean', { ...validFields, newsletter: 'yes' }],
+      ['invalid date', { ...validFields, birthdate: 'not a date' }],
+      ['invalid choice', { ...validFields, gender: 'X' }],
+      ['invalid address', { ...validFields, address: { line1: 'Château des ducs de Bretagne' } }],
+    ])('should throw on %s', (_name, value) => {
+      expect(() => validate(value)).toThrow(Error);
+    });
+  });
+});
+
+describe('parseUserFields', () => {
+  it('should accept a list or a paginated response', () => {
+    expect(parseUserFields(fields)).toEqual(fields);
+    expect(parseUserFields({ count: fields.length, results: fields })).toEqual(fields);
+  });
+
+  it('should throw on invalid data', () => {
+    expect(() => parseUserFields({ foo: 'bar' })).toThrow(FiefCodegenError);
+    expect(() => parseUserFields([{ slug: 'first_name' }])).toThrow(FiefCodegenError);
+  });
+});
+
+describe('fetchUserFields', () => {
+  it('should fetch all the pages from the admin API', async () => {
+    const pages = Array.from({ length: 150 }, (_, i) => (
+      {
+        name: `Field ${i}`, slug: `field_${i}`, type: 'string', configuration: { required: false },
+      }
+    ));
+    const mockFetch = fetchMock.sandbox();
+    mockFetch.get(
+      'begin:https://bretagne.fief.dev/admin/api/user-fields/?limit=100&skip=0',
+      { status: 200, body: { count: 150, results: pages.slice(0, 100) } },
+    );
+    mockFetch.get(
+      'begin:https://bretagne.fief.dev/admin/api/user-fields/?limit=100&skip=100',
+      { status: 200, body: { count: 150, results: pages.slice(100) } },
+    );
+
+    const result = await fetchUserFields(HOSTNAME, 'API_KEY', mockFetch as unknown as typeof fetch);
+
+    expect(result).toHaveLength(150);
+    const [, options] = mockFetch.lastCall() as [string, { headers: Record<string, string> }];
+    expect(options.headers.Authorization).toBe('Bearer API_KEY');
+  });
+
+  it('should throw FiefCodegenError on API error', async () => {
+    const mockFetch = fetchMock.sandbox();
+    mockFetch.get('begin:https://bretagne.fief.dev/admin/api/user-fields/', { status: 401, body: { detail: 'Unauthorized' } });
+
+    await expect(fetchUserFields(HOSTNAME, 'API_KEY', mockFetch as unknown as typeof fetch))
+      .rejects.toThrow(FiefCodegenError);
+  });
+});
+
+describe('cli', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should generate the code from a JSON file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'fief-js-'));
+    const input = join(directory, 'fields.json');
+    const output = join(directory, 'user-fields.ts');
+    await writeFile(input, JSON.stringify({ results: fields }));
+
+    const code = await main(['generate-user-fields', '--input', input, `--output=${output}`, '--interface-name', 'Profile']);
+
+    expect(code).toBe(0);
+    expect(await readFile(output, 'utf-8')).toEqual(generateUserFields(fields, { interfaceName: 'Profile' }));
+
+    await rm(directory, { recursive: true });
+  });
+
+  it('should print the usage', async () => {
+    expect(await main([])).toBe(0);
+    expect(await main(['--help'])).toBe(0);
+    expect(stdout).toHaveBeenCalledWith(expect.stringContaining('Usage: fief-js generate-user-fields'));
+  });
+
+  it.each([
+    [['unknown']],
+    [['generate-user-fields']],
+    [['generate-user-fields', '--unknown', 'value']],
+    [['generate-user-fields', '--input']],
+    [['generate-user-fields', '--base-url', HOSTNAME]],
+  ])('should fail with invalid arguments %p', async (argv) => {
+    const previousAPIKey = process.env.FIEF_API_KEY;
+    delete process.env.FIEF_API_KEY;
+
+    const code = await main(argv);
+
+    if (previousAPIKey !== undefined) {
+      process.env.FIEF_API_KEY = previousAPIKey;
+    }
+    expect(code).toBe(1);
+    expect(stderr).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Code generation of TypeScript types from the user fields of a Fief tenant.
+ *
+ * @module
+ */
+import { FiefError } from '../client';
+import { getFetch } from '../fetch';
+
+/**
+ * The user fields definitions are invalid or can't be retrieved.
+ */
+export class FiefCodegenError extends FiefError { }
+
+/**
+ * Type of a [user field](https://docs.fief.dev/getting-started/user-fields/).
+ */
+export type FiefUserFieldType = (
+  'string' |
+  'integer' |
+  'boolean' |
+  'date' |
+  'datetime' |
+  'choice' |
+  'phone_number' |
+  'address' |
+  'timezone'
+);
+
+/**
+ * Definition of a user field, as returned by the Fief admin API.
+ */
+export interface FiefUserFieldDefinition {
+  /**
+   * Display name of the user field.
+   */
+  name: string;
+
+  /**
+   * Slug of the user field, used as key in the user fields object.
+   */
+  slug: string;
+
+  /**
+   * Type of the user field.
+   */
+  type: FiefUserFieldType;
+
+  /**
+   * Configuration of the user field.
+   */
+  configuration: {
+    /**
+     * Whether the user field is required.
+     */
+    required?: boolean;
+
+    /**
+     * List of `[value, label]` pairs for `choice` user fields.
+     */
+    choices?: [string, string][] | null;
+  };
+}
+
+/**
+ * Options of the generated code.
+ */
+export interface GenerateUserFieldsOptions {
+  /**
+   * Name of the generated interface.
+   *
+   * Defaults to `UserFields`.
+   */
+  interfaceName?: string;
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+const formatKey = (slug: string): string => (
+  IDENTIFIER_REGEX.test(slug) ? slug : JSON.stringify(slug)
+);
+
+const getChoices = (field: FiefUserFieldDefinition): string[] => {
+  const { choices } = field.configuration;
+  if (!choices || choices.length === 0) {
+    throw new FiefCodegenError(`The choice user field "${field.slug}" has no choices.`);
+  }
+  return choices.map(([value]) => value);
+};
+
+const getFieldType = (
+  field: FiefUserFieldDefinition,
+  addressInterfaceName: string,
+): string => {
+  switch (field.type) {
+    case 'string':
+    case 'phone_number':
+    case 'timezone':
+    case 'date':
+    case 'datetime':
+      return 'string';
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'choice':
+      return getChoices(field).map((value) => JSON.stringify(value)).join(' | ');
+    case 'address':
+      return addressInterfaceName;
+    default:
+      throw new FiefCodegenError(`Unsupported type "${field.type}" for user field "${field.slug}".`);
+  }
+};
+
+const getFieldCheck = (field: FiefUserFieldDefinition): string => {
+  switch (field.type) {
+    case 'string':
+    case 'phone_number':
+    case 'timezone':
+      return 'isString';
+    case 'date':
+    case 'datetime':
+      return 'isDate';
+    case 'integer':
+      return 'isInteger';
+    case 'boolean':
+      return 'isBoolean';
+    case 'choice':
+      return `isOneOf(${JSON.stringify(getChoices(field))})`;
+    case 'address':
+      return 'isAddress';
+    default:
+      throw new FiefCodegenError(`Unsupported type "${field.type}" for user field "${field.slug}".`);
+  }
+};
+
+/**
+ * Return the source code of a TypeScript module declaring an interface
+ * matching `FiefUserInfo.fields` and a runtime validator
+ * to pass as `userFieldsValidator` to the {@link Fief} client.
+ *
+ * @param fields - List of user fields definitions.
+ * @param options - Options of the generated code.
+ *
+ * @returns The source code of the TypeScript module.
+ * @throws {@link FiefCodegenError} if a user field definition is invalid.
+ *
+ * @example
+ * ```ts
+ * const code = generateUserFields(fields, { interfaceName: 'UserFields' });
+ * ```
+ */
+export const generateUserFields = (
+  fields: FiefUserFieldDefinition[],
+  options: GenerateUserFieldsOptions = {},
+): string => {
+  const interfaceName = options.interfaceName ? options.interfaceName : 'UserFields';
+  if (!IDENTIFIER_REGEX.test(interfaceName)) {
+    throw new FiefCodegenError(`Invalid interface name "${interfaceName}".`);
+  }
+  const addressInterfaceName = `${interfaceName}Address`;
+  const validatorName = `validate${interfaceName}`;
+  const hasAddress = fields.some((field) => field.type === 'address');
+
+  const lines: string[] = [
+    '/**',
+    ' * User fields of the Fief tenant.',
+    ' *',
+    ' * Generated by `fief-js generate-user-fields`. Do not edit this file manually.',
+    ' */',
+    '',
+  ];
+
+  if (hasAddress) {
+    lines.push(
+      `export interface ${addressInterfaceName} {`,
+      '  line1: string;',
+      '  line2?: string | null;',
+      '  postal_code: string;',
+      '  city: string;',
+      '  state?: string | null;',
+      '  country: string;',
+      '}',
+      '',
+    );
+  }
+
+  lines.push(`export interface ${interfaceName} {`);
+  fields.forEach((field, index) => {
+    const required = field.configuration.required === true;
+    const type = getFieldType(field, addressInterfaceName);
+    lines.push(
+      ...index > 0 ? [''] : [],
+      '  /**',
+      `   * ${field.name}`,
+      '   */',
+      `  ${formatKey(field.slug)}${required ? '' : '?'}: ${required ? type : `${type} | null`};`,
+    );
+  });
+  lines.push('}', '');
+
+  lines.push(
+    'type Check = (value: unknown) => boolean;',
+    '',
+    'const isString: Check = (value) => typeof value === \'string\';',
+    'const isInteger: Check = (value) => Number.isInteger(value);',
+    'const isBoolean: Check = (value) => typeof value === \'boolean\';',
+    'const isDate: Check = (value) => typeof value === \'string\' && !Number.isNaN(Date.parse(value));',
+    'const isOneOf = (choices: unknown[]): Check => (value) => choices.indexOf(value) !== -1;',
+    'const isObject = (value: unknown): value is Record<string, unknown> => (',
+    '  typeof value === \'object\' && value !== null && !Array.isArray(value)',
+    ');',
+  );
+  if (hasAddress) {
+    lines.push(
+      'const isOptionalString: Check = (value) => value === undefined || value === null || isString(value);',
+      'const isAddress: Check = (value) => (',
+      '  isObject(value)',
+      '  && isString(value.line1)',
+      '  && isOptionalString(value.line2)',
+      '  && isString(value.postal_code)',
+      '  && isString(value.city)',
+      '  && isOptionalString(value.state)',
+      '  && isString(value.country)',
+      ');',
+    );
+  }
+  lines.push(
+    '',
+    'const checkField = (',
+    '  fields: Record<string, unknown>,',
+    '  slug: string,',
+    '  required: boolean,',
+    '  check: Check,',
+    '): void => {',
+    '  const value = fields[slug];',
+    '  if (value === undefined || value === null) {',
+    '    if (required) {',
+    // eslint-disable-next-line no-template-curly-in-string
+    '      throw new Error(`User field "${slug}" is required.`);',
+    '    }',
+    '    return;',
+    '  }',
+    '  if (!check(value)) {',
+    // eslint-disable-next-line no-template-curly-in-string
+    '    throw new Error(`User field "${slug}" is invalid.`);',
+    '  }',
+    '};',
+    '',
+    '/**',
+    ` * Check that a value matches the {@link ${interfaceName}} interface.`,
+    ' *',
+    ' * Pass it as `userFieldsValidator` to the Fief client.',
+    ' *',
+    ' * @param fields - The value to check.',
+    ' *',
+    ` * @returns The value, typed as {@link ${interfaceName}}.`,
+    ' * @throws An `Error` if the value is invalid.',
+    ' */',
+    `export const ${validatorName} = (fields: unknown): ${interfaceName} => {`,
+    '  if (!isObject(fields)) {',
+    '    throw new Error(\'User fields should be an object.\');',
+    '  }',
+  );
+  fields.forEach((field) => {
+    const required = field.configuration.required === true;
+    lines.push(
+      `  checkField(fields, ${JSON.stringify(field.slug)}, ${required}, ${getFieldCheck(field)});`,
+    );
+  });
+  lines.push(
+    `  return fields as unknown as ${interfaceName};`,
+    '};',
+    '',
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Return the list of user fields definitions from a JSON value,
+ * either a list or a paginated response of the Fief admin API.
+ *
+ * @param data - The JSON value.
+ *
+ * @returns The list of user fields definitions.
+ * @throws {@link FiefCodegenError} if the JSON value is not a list of user fields definitions.
+ */
+export const parseUserFields = (data: unknown): FiefUserFieldDefinition[] => {
+  const results = (
+    data !== null && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>).results
+      : data
+  );
+  if (!Array.isArray(results)) {
+    throw new FiefCodegenError('Expected a list of user fields.');
+  }
+  results.forEach((field) => {
+    if (
+      field === null
+      || typeof field !== 'object'
+      || typeof field.slug !== 'string'
+      || typeof field.type !== 'string'
+    ) {
+      throw new FiefCodegenError('Expected a list of user fields.');
+    }
+  });
+  return results.map((field) => ({
+    name: typeof field.name === 'string' ? field.name : field.slug,
+    slug: field.slug,
+    type: field.type,
+    configuration: field.configuration ? field.configuration : {},
+  }));
+};
+
+/**
+ * Retrieve the user fields definitions from the Fief admin API.
+ *
+ * @param baseURL - Base URL of your Fief tenant.
+ * @param apiKey - An [admin API key](https://docs.fief.dev/api/).
+ * @param fetch - Optional `fetch` implementation.
+ *
+ * @returns The list of user fields definitions.
+ * @throws {@link FiefCodegenError} if the request to the admin API failed.
+ *
+ * @example
+ * ```ts
+ * const fields = await fetchUserFields('https://example.fief.dev', 'ADMIN_API_KEY');
+ * ```
+ */
+export const fetchUserFields = async (
+  baseURL: string,
+  apiKey: string,
+  fetch?: typeof globalThis.fetch,
+): Promise<FiefUserFieldDefinition[]> => {
+  const fetchImpl = fetch !== undefined ? fetch : getFetch();
+  const limit = 100;
+  const fields: FiefUserFieldDefinition[] = [];
+
+  for (;;) {
+    const params = new URLSearchParams({ limit: `${limit}`, skip: `${fields.length}` });
+    // eslint-disable-next-line no-await-in-loop
+    const response = await fetchImpl(`${baseURL}/admin/api/user-fields/?${params.toString()}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+    if (response.status < 200 || response.status > 299) {
+      // eslint-disable-next-line no-await-in-loop
+      const detail = await response.text();
+      throw new FiefCodegenError(`[${response.status}] - ${detail}`);
+    }
+    // eslint-disable-next-line no-await-in-loop
+    const data = await response.json();
+    const page = parseUserFields(data);
+    fields.push(...page);
+    if (page.length < limit || (typeof data.count === 'number' && fields.length >= data.count)) {
+      return fields;
+    }
+  }
+};
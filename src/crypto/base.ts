@@ -48,6 +48,15 @@ export interface ICryptoHelper {
    * @see [PKCE](https://docs.fief.dev/going-further/pkce/)
    */
   getCodeChallenge: (code: string, method: 'plain' | 'S256') => Promise<string>;
+
+  /**
+   * Generate a cryptographic-safe value suitable for the OpenID Connect `nonce` parameter.
+   *
+   * @returns A nonce to bind the ID token to the authorization request.
+   *
+   * @see [Nonce](https://openid.net/specs/openid-connect-core-1_0.html#NonceNotes)
+   */
+  generateNonce: () => Promise<string>;
 }
 
 export class CryptoHelperError extends Error {}
@@ -61,3 +61,17 @@ describe('getCodeChallenge', () => {
     }
   });
 });
+
+describe('generateNonce', () => {
+  it('should generate an URL-safe random string of length 43', async () => {
+    const nonce = await cryptoHelper.generateNonce();
+    expect(nonce).toHaveLength(43);
+    expect(nonce).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should generate different values', async () => {
+    const nonce1 = await cryptoHelper.generateNonce();
+    const nonce2 = await cryptoHelper.generateNonce();
+    expect(nonce1).not.toEqual(nonce2);
+  });
+});
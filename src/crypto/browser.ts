@@ -72,4 +72,10 @@ export class BrowserCryptoHelper implements ICryptoHelper {
 
     throw new CryptoHelperError(`Invalid method "${method}". Allowed methods are: plain, S256`);
   }
+
+  public async generateNonce(): Promise<string> {
+    const randomArray = new Uint8Array(32);
+    this.crypto.getRandomValues(randomArray);
+    return toURLSafeBase64(randomArray);
+  }
 }
@@ -56,4 +56,16 @@ export class NodeJSCryptoHelper implements ICryptoHelper {
 
     throw new CryptoHelperError(`Invalid method "${method}". Allowed methods are: plain, S256`);
   }
+
+  public async generateNonce(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.crypto.randomBytes(32, (err, buffer) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(buffer.toString('base64url'));
+        }
+      });
+    });
+  }
 }
@@ -0,0 +1,42 @@
+import * as jose from 'jose';
+
+import { getCrypto } from './crypto';
+import { FiefDPoPKey } from './dpop';
+
+const cryptoHelper = getCrypto();
+
+describe('FiefDPoPKey', () => {
+  const dpopKey = new FiefDPoPKey();
+
+  it('should create a proof signed with the embedded public key', async () => {
+    const proof = await dpopKey.createProof('post', 'https://bretagne.fief.dev/token?foo=bar');
+
+    const { payload, protectedHeader } = await jose.jwtVerify(proof, jose.EmbeddedJWK, { typ: 'dpop+jwt' });
+    expect(protectedHeader.alg).toBe('ES256');
+    expect(protectedHeader.jwk).not.toHaveProperty('d');
+    expect(payload.htm).toBe('POST');
+    expect(payload.htu).toBe('https://bretagne.fief.dev/token');
+    expect(payload.jti).toBeDefined();
+    expect(payload.iat).toBeDefined();
+    expect(payload).not.toHaveProperty('ath');
+  });
+
+  it('should include the access token hash and nonce', async () => {
+    const proof = await dpopKey.createProof('GET', 'https://bretagne.fief.dev/userinfo', 'ACCESS_TOKEN', 'NONCE');
+
+    const payload = jose.decodeJwt(proof);
+    expect(payload.ath).toBe(await cryptoHelper.getCodeChallenge('ACCESS_TOKEN', 'S256'));
+    expect(payload.nonce).toBe('NONCE');
+  });
+
+  it('should always use the same key pair', async () => {
+    const proof1 = await dpopKey.createProof('GET', 'https://bretagne.fief.dev/userinfo');
+    const proof2 = await dpopKey.createProof('GET', 'https://bretagne.fief.dev/userinfo');
+
+    const { jwk: jwk1 } = jose.decodeProtectedHeader(proof1);
+    const { jwk: jwk2 } = jose.decodeProtectedHeader(proof2);
+    expect(jwk1).toEqual(jwk2);
+    expect(jose.decodeJwt(proof1).jti).not.toEqual(jose.decodeJwt(proof2).jti);
+    expect(await dpopKey.getThumbprint()).toBe(await jose.calculateJwkThumbprint(jwk1 as jose.JWK));
+  });
+});
@@ -0,0 +1,98 @@
+import * as jose from 'jose';
+
+import { getCrypto, ICryptoHelper } from './crypto';
+
+/**
+ * Key pair used to bind tokens to a client
+ * with [DPoP](https://www.rfc-editor.org/rfc/rfc9449).
+ *
+ * The key pair is generated on first use and kept in memory.
+ * In the browser, the private key is a non-extractable WebCrypto key,
+ * so it can't be exfiltrated by a malicious script.
+ *
+ * @example
+ * ```ts
+ * const dpopKey = new FiefDPoPKey();
+ * const fief = new Fief({
+ *     baseURL: 'https://example.fief.dev',
+ *     clientId: 'YOUR_CLIENT_ID',
+ *     dpopKey,
+ * });
+ * ```
+ */
+export class FiefDPoPKey {
+  private algorithm: string;
+
+  private keyPair?: Promise<{ privateKey: jose.KeyLike, publicJWK: jose.JWK }>;
+
+  private crypto: ICryptoHelper;
+
+  /**
+   * @param algorithm - Signature algorithm of the key pair. Defaults to `ES256`.
+   */
+  constructor(algorithm: string = 'ES256') {
+    this.algorithm = algorithm;
+    this.crypto = getCrypto();
+  }
+
+  /**
+   * Return the JWK SHA-256 thumbprint of the public key,
+   * as found in the `cnf.jkt` claim of the bound access tokens.
+   *
+   * @returns The thumbprint of the public key.
+   */
+  public async getThumbprint(): Promise<string> {
+    const { publicJWK } = await this.getKeyPair();
+    return jose.calculateJwkThumbprint(publicJWK, 'sha256');
+  }
+
+  /**
+   * Return a DPoP proof for an HTTP request.
+   *
+   * @param method - HTTP method of the request.
+   * @param url - URL of the request.
+   * @param accessToken - Optional access token sent with the request.
+   * @param nonce - Optional nonce provided by the server.
+   *
+   * @returns A DPoP proof to set in the `DPoP` header of the request.
+   *
+   * @example
+   * ```ts
+   * const proof = await dpopKey.createProof('GET', 'https://api.bretagne.duchy/castles', 'ACCESS_TOKEN');
+   * ```
+   */
+  public async createProof(
+    method: string,
+    url: string,
+    accessToken?: string,
+    nonce?: string,
+  ): Promise<string> {
+    const { privateKey, publicJWK } = await this.getKeyPair();
+    const htu = new URL(url);
+
+    return new jose.SignJWT({
+      htm: method.toUpperCase(),
+      htu: `${htu.origin}${htu.pathname}`,
+      // The access token hash is computed like a S256 PKCE code challenge
+      ...accessToken ? { ath: await this.crypto.getCodeChallenge(accessToken, 'S256') } : {},
+      ...nonce ? { nonce } : {},
+    })
+      .setProtectedHeader({ typ: 'dpop+jwt', alg: this.algorithm, jwk: publicJWK })
+      .setJti(await this.crypto.generateNonce())
+      .setIssuedAt()
+      .sign(privateKey);
+  }
+
+  private async getKeyPair(): Promise<{ privateKey: jose.KeyLike, publicJWK: jose.JWK }> {
+    if (this.keyPair === undefined) {
+      this.keyPair = jose
+        .generateKeyPair(this.algorithm, { extractable: false })
+        .then(async ({ privateKey, publicKey }) => ({
+          privateKey,
+          publicJWK: await jose.exportJWK(publicKey),
+        }))
+      ;
+    }
+    return this.keyPair;
+  }
+}
@@ -5,7 +5,8 @@ import request from 'supertest';
 
 import { generateToken, signatureKeyPublic, userId } from '../../tests/utils';
 import { Fief, FiefACR, FiefUserInfo } from '../client';
-import { authorizationSchemeGetter, IUserInfoCache } from '../server';
+import { FiefDPoPKey } from '../dpop';
+import { authorizationSchemeGetter, dpopGetter, IUserInfoCache } from '../server';
 import { createMiddleware } from './index';
 
 const mockFetch = fetchMock.sandbox();
@@ -78,6 +79,10 @@ const testApp = (): Express => {
     res.json(req.accessTokenInfo);
   });
 
+  app.get('/authenticated-introspect', fiefAuthMiddleware({ introspect: true }), (req, res) => {
+    res.json(req.accessTokenInfo);
+  });
+
   app.get('/current-user', fiefAuthMiddleware(), (req, res) => {
     res.json(req.user);
   });
@@ -99,6 +104,7 @@ beforeEach(async () => {
       authorization_endpoint: `${HOSTNAME}/authorize`,
       token_endpoint: `${HOSTNAME}/token`,
       userinfo_endpoint: `${HOSTNAME}/userinfo`,
+      introspection_endpoint: `${HOSTNAME}/introspect`,
       jwks_uri: `${HOSTNAME}/.well-known/jwks.json`,
     },
   });
@@ -272,6 +278,43 @@ describe('fiefAuth', () => {
     });
   });
 
+  describe('introspect', () => {
+    it('should return 401 if inactive token', async () => {
+      mockFetch.post('path:/introspect', { status: 200, body: { active: false } });
+      const accessToken = await generateToken(false, { scope: 'openid', acr: FiefACR.LEVEL_ZERO, permissions: [] });
+      const response = await request(testApp())
+        .get('/authenticated-introspect')
+        .set('Authorization', `Bearer ${accessToken}`)
+        ;
+      expect(response.statusCode).toEqual(401);
+    });
+
+    it('should set accessTokenInfo in Request object if active token', async () => {
+      mockFetch.post('path:/introspect', {
+        status: 200,
+        body: {
+          active: true,
+          sub: userId,
+          scope: 'openid',
+          acr: FiefACR.LEVEL_ZERO,
+          permissions: [],
+        },
+      });
+      const response = await request(testApp())
+        .get('/authenticated-introspect')
+        .set('Authorization', 'Bearer ACCESS_TOKEN')
+        ;
+      expect(response.statusCode).toEqual(200);
+      expect(response.body).toEqual({
+        id: userId,
+        scope: ['openid'],
+        acr: FiefACR.LEVEL_ZERO,
+        permissions: [],
+        access_token: 'ACCESS_TOKEN',
+      });
+    });
+  });
+
   describe('user', () => {
     it('should get userinfo from API and set it in storage', async () => {
       const accessToken = await generateToken(false, { scope: 'openid', acr: FiefACR.LEVEL_ZERO, permissions: [] });
@@ -316,3 +359,40 @@ describe('fiefAuth', () => {
     });
   });
 });
+
+describe('DPoP', () => {
+  const dpopKey = new FiefDPoPKey();
+
+  const dpopApp = (): Express => {
+    const app = express();
+    const router = express.Router();
+    const dpopMiddleware = createMiddleware({
+      client: fief,
+      tokenGetter: authorizationSchemeGetter('dpop'),
+      dpopGetter: dpopGetter('https://api.bretagne.duchy'),
+    });
+    router.get('/castles', dpopMiddleware(), (req, res) => {
+      res.json(req.accessTokenInfo);
+    });
+    app.use('/api', router);
+    return app;
+  };
+
+  it('should accept a valid proof in a router mounted on a sub-path', async () => {
+    const accessToken = await generateToken(false, {
+      scope: 'openid',
+      acr: FiefACR.LEVEL_ZERO,
+      permissions: [],
+      cnf: { jkt: await dpopKey.getThumbprint() },
+    });
+    const proof = await dpopKey.createProof('GET', 'https://api.bretagne.duchy/api/castles', accessToken);
+
+    const response = await request(dpopApp())
+      .get('/api/castles')
+      .set('Authorization', `DPoP ${accessToken}`)
+      .set('DPoP', proof)
+      ;
+    expect(response.statusCode).toEqual(200);
+    expect(response.body.id).toEqual(userId);
+  });
+});
@@ -8,12 +8,15 @@ import { NextFunction, Request, Response } from 'express';
 import {
   Fief,
   FiefAccessTokenInfo,
+  FiefUserFields,
   FiefUserInfo,
 } from '../client';
 import {
   AuthenticateRequestParameters,
   authorizationSchemeGetter,
   cookieGetter,
+  DPoPGetter,
+  dpopGetter,
   FiefAuth,
   FiefAuthForbidden,
   FiefAuthUnauthorized,
@@ -31,6 +34,22 @@ declare global {
   }
 }
 
+/**
+ * Express `Request` with typed [user fields](https://docs.fief.dev/getting-started/user-fields/)
+ * on `req.user`.
+ *
+ * @example
+ * ```ts
+ * app.get('/authenticated', fiefAuthMiddleware(), (req, res) => {
+ *     const { user } = req as FiefRequest<UserFields>;
+ *     res.json({ firstName: user?.fields.first_name });
+ * });
+ * ```
+ */
+export type FiefRequest<F extends FiefUserFields = FiefUserFields> = Request & {
+  user: FiefUserInfo<F> | null;
+};
+
 /**
  * Default handler for unauthorized response.
  *
@@ -58,11 +77,11 @@ const defaultForbiddenResponse = async (req: Request, res: Response) => {
 /**
  * Parameters to instantiate a {@link fiefAuth} middleware.
  */
-export interface FiefAuthParameters {
+export interface FiefAuthParameters<F extends FiefUserFields = FiefUserFields> {
   /**
    * Instance of a {@link Fief} client.
    */
-  client: Fief;
+  client: Fief<F>;
 
   /**
    *  {@link TokenGetter} function.
@@ -72,7 +91,13 @@ export interface FiefAuthParameters {
   /**
    * An instance of a {@link IUserInfoCache} class.
    */
-  userInfoCache?: IUserInfoCache;
+  userInfoCache?: IUserInfoCache<F>;
+
+  /**
+   * Optional {@link DPoPGetter} function.
+   * Necessary to accept [DPoP](https://www.rfc-editor.org/rfc/rfc9449)-bound access tokens.
+   */
+  dpopGetter?: DPoPGetter<Request>;
 
   /**
    * Optional handler for unauthorized response.
@@ -151,11 +176,14 @@ export interface FiefAuthParameters {
  * );
  * ```
  */
-const createMiddleware = (parameters: FiefAuthParameters) => {
-  const fiefAuthServer = new FiefAuth<Request>(
+const createMiddleware = <F extends FiefUserFields = FiefUserFields>(
+  parameters: FiefAuthParameters<F>,
+) => {
+  const fiefAuthServer = new FiefAuth<Request, F>(
     parameters.client,
     parameters.tokenGetter,
     parameters.userInfoCache,
+    parameters.dpopGetter,
   );
   const unauthorizedResponse = (
     parameters.unauthorizedResponse
@@ -197,6 +225,8 @@ export {
   authorizationSchemeGetter,
   cookieGetter,
   createMiddleware,
+  DPoPGetter,
+  dpopGetter,
   IUserInfoCache,
   TokenGetter,
 };
@@ -5,20 +5,54 @@
  */
 
 export * as browser from './browser';
+export { FiefMemoryMetadataCache, IFiefMetadataCache } from './cache';
 export {
   Fief,
+  FiefAccessToken,
   FiefAccessTokenACRTooLow,
+  FiefAccessTokenAlgorithmInvalid,
+  FiefAccessTokenAudienceInvalid,
+  FiefAccessTokenDPoPInvalid,
   FiefAccessTokenExpired,
   FiefAccessTokenInfo,
   FiefAccessTokenInvalid,
+  FiefAccessTokenIssuerInvalid,
   FiefAccessTokenMissingPermission,
   FiefAccessTokenMissingScope,
   FiefACR,
+  FiefCircuitOpenError,
+  FiefClientAuthMethod,
+  FiefClientCredentialsTokenManager,
+  FiefDeviceAuthorizationDenied,
+  FiefDeviceAuthorizationError,
+  FiefDeviceAuthorizationExpired,
+  FiefDeviceAuthorizationResponse,
   FiefError,
+  FiefFieldError,
+  FiefIdTokenAlgorithmInvalid,
+  FiefIdTokenAudienceInvalid,
   FiefIdTokenInvalid,
+  FiefIdTokenIssuerInvalid,
+  FiefIdTokenNonceInvalid,
+  FiefInvalidClientError,
+  FiefInvalidGrantError,
+  FiefInvalidScopeError,
+  FiefOpenIDConfiguration,
   FiefParameters,
   FiefRequestError,
+  FiefRequestTimeoutError,
+  FiefTokenIntrospection,
   FiefTokenResponse,
+  FiefUnsupportedCapabilityError,
+  FiefUserFields,
+  FiefUserFieldsInvalid,
   FiefUserInfo,
+  FiefUserProfileUpdate,
 } from './client';
 export * as crypto from './crypto';
+export { FiefDPoPKey } from './dpop';
+export {
+  FiefCircuitBreakerParameters,
+  FiefRequestEvent,
+  FiefRetryPolicy,
+} from './resilience';
@@ -0,0 +1,127 @@
+import { get } from 'http';
+
+import { Fief } from '../client';
+import { FiefLoopbackError, FiefLoopbackTimeoutError, loopbackLogin } from './index';
+
+const getAuthURLMock = jest.fn();
+const authCallbackMock = jest.fn();
+const fief = {
+  getAuthURL: getAuthURLMock,
+  authCallback: authCallbackMock,
+} as unknown as Fief;
+
+const callLoopback = (url: string): Promise<[number, string]> => new Promise((resolve, reject) => {
+  get(url, (res) => {
+    let body = '';
+    res.on('data', (chunk) => { body += chunk; });
+    res.on('end', () => resolve([res.statusCode as number, body]));
+  }).on('error', reject);
+});
+
+const callbackURL = (params: Record<string, string>): string => {
+  const { redirectURI } = getAuthURLMock.mock.calls[0][0];
+  return `${redirectURI}?${new URLSearchParams(params).toString()}`;
+};
+
+beforeEach(() => {
+  getAuthURLMock.mockReset();
+  getAuthURLMock.mockResolvedValue('https://bretagne.fief.dev/authorize');
+  authCallbackMock.mockReset();
+  authCallbackMock.mockResolvedValue([{ access_token: 'ACCESS_TOKEN' }, { sub: 'USER_ID' }]);
+});
+
+describe('loopbackLogin', () => {
+  it('should build the authorization URL with PKCE, state and nonce', async () => {
+    const openURL = jest.fn(async () => {
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      await callLoopback(callbackURL({ code: 'CODE', state }));
+    });
+
+    await loopbackLogin({ client: fief, openURL, scope: ['openid', 'offline_access'] });
+
+    expect(openURL).toHaveBeenCalledWith('https://bretagne.fief.dev/authorize');
+    const parameters = getAuthURLMock.mock.calls[0][0];
+    expect(parameters.redirectURI).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+    expect(parameters.scope).toEqual(['openid', 'offline_access']);
+    expect(parameters.codeChallengeMethod).toEqual('S256');
+    expect(parameters.codeChallenge).toBeDefined();
+    expect(parameters.state).toBeDefined();
+    expect(parameters.nonce).toBeDefined();
+  });
+
+  it('should return the tokens and userinfo', async () => {
+    let page: [number, string] | undefined;
+    const openURL = async () => {
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      page = await callLoopback(callbackURL({ code: 'CODE', state }));
+    };
+
+    const [tokens, userinfo] = await loopbackLogin({ client: fief, openURL, successPage: 'OK' });
+
+    expect(tokens).toEqual({ access_token: 'ACCESS_TOKEN' });
+    expect(userinfo).toEqual({ sub: 'USER_ID' });
+    expect(page).toEqual([200, 'OK']);
+
+    const { redirectURI, nonce } = getAuthURLMock.mock.calls[0][0];
+    expect(authCallbackMock).toHaveBeenCalledWith('CODE', redirectURI, expect.any(String), nonce);
+  });
+
+  it('should ignore callbacks with an invalid state', async () => {
+    let invalidPage: [number, string] | undefined;
+    const openURL = async () => {
+      invalidPage = await callLoopback(callbackURL({ code: 'CODE', state: 'INVALID_STATE' }));
+      await callLoopback(callbackURL({ error: 'access_denied' }));
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      await callLoopback(callbackURL({ code: 'CODE', state }));
+    };
+
+    const [tokens] = await loopbackLogin({ client: fief, openURL, errorPage: 'KO' });
+
+    expect(tokens).toEqual({ access_token: 'ACCESS_TOKEN' });
+    expect(invalidPage).toEqual([400, 'KO']);
+    expect(authCallbackMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should enclose IPv6 hosts in brackets', async () => {
+    const openURL = async () => {
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      await callLoopback(callbackURL({ code: 'CODE', state }));
+    };
+
+    await loopbackLogin({ client: fief, openURL, host: '::1' });
+
+    const { redirectURI } = getAuthURLMock.mock.calls[0][0];
+    expect(redirectURI).toMatch(/^http:\/\/\[::1\]:\d+\/callback$/);
+  });
+
+  it('should reject on authorization error', async () => {
+    const openURL = async () => {
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      await callLoopback(callbackURL({ error: 'access_denied', error_description: 'Denied', state }));
+    };
+
+    try {
+      await loopbackLogin({ client: fief, openURL });
+    } catch (err) {
+      expect(err).toBeInstanceOf(FiefLoopbackError);
+      expect((err as FiefLoopbackError).error).toEqual('access_denied');
+      expect((err as FiefLoopbackError).description).toEqual('Denied');
+    }
+    expect.assertions(3);
+  });
+
+  it('should reject if the callback fails', async () => {
+    authCallbackMock.mockRejectedValue(new Error('Callback error'));
+    const openURL = async () => {
+      const { state } = getAuthURLMock.mock.calls[0][0];
+      await callLoopback(callbackURL({ code: 'CODE', state }));
+    };
+
+    await expect(loopbackLogin({ client: fief, openURL })).rejects.toThrow('Callback error');
+  });
+
+  it('should reject after the timeout', async () => {
+    await expect(loopbackLogin({ client: fief, openURL: () => {}, timeout: 0.1 }))
+      .rejects.toThrow(FiefLoopbackTimeoutError);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Loopback redirect integration for NodeJS desktop and CLI apps.
+ *
+ * @module
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import {
+  Fief,
+  FiefError,
+  FiefTokenResponse,
+  FiefUserInfo,
+} from '../client';
+import { NodeJSCryptoHelper } from '../crypto/node';
+
+/**
+ * The loopback authentication process failed.
+ */
+export class FiefLoopbackError extends FiefError {
+  public error: string;
+
+  public description: string | null;
+
+  constructor(error: string, description: string | null = null) {
+    super(description ? `${error} - ${description}` : error);
+    this.error = error;
+    this.description = description;
+  }
+}
+
+/**
+ * The user didn't complete the authentication before the timeout.
+ */
+export class FiefLoopbackTimeoutError extends FiefLoopbackError {
+  constructor() {
+    super('timeout');
+  }
+}
+
+const defaultSuccessPage = `<!DOCTYPE html>
+<html>
+  <head><title>Authentication successful</title></head>
+  <body><p>You are authenticated. You can close this window and go back to the application.</p></body>
+</html>`;
+
+const defaultErrorPage = `<!DOCTYPE html>
+<html>
+  <head><title>Authentication failed</title></head>
+  <body><p>The authentication failed. Please close this window and try again.</p></body>
+</html>`;
+
+/**
+ * Default handler to open the authorization URL.
+ *
+ * Print the URL in the console so the user can open it in their browser.
+ *
+ * @param url - The authorization URL.
+ */
+const defaultOpenURL = async (url: string) => {
+  // eslint-disable-next-line no-console
+  console.log(`Open the following URL in your browser to authenticate:\n\n${url}\n`);
+};
+
+/**
+ * Parameters of a {@link loopbackLogin} authentication.
+ */
+export interface LoopbackLoginParameters {
+  /**
+   * Instance of a {@link Fief} client.
+   */
+  client: Fief;
+
+  /**
+   * Optional list of scopes to ask for.
+   *
+   * Defaults to `['openid']`.
+   */
+  scope?: string[];
+
+  /**
+   * Optional parameter to set the user locale.
+   */
+  lang?: string;
+
+  /**
+   * Optional object containing [specific parameters](https://docs.fief.dev/going-further/authorize-url/).
+   */
+  extrasParams?: Record<string, string>;
+
+  /**
+   * Loopback address the temporary HTTP server listens on.
+   *
+   * Defaults to `127.0.0.1`.
+   */
+  host?: string;
+
+  /**
+   * Port the temporary HTTP server listens on.
+   *
+   * Defaults to `0`, i.e. a random available port.
+   * Set it if your Fief client only allows a fixed redirect URI.
+   */
+  port?: number;
+
+  /**
+   * Path of the callback on the temporary HTTP server.
+   *
+   * Defaults to `/callback`.
+   */
+  callbackPath?: string;
+
+  /**
+   * Number of seconds to wait for the user to complete the authentication.
+   *
+   * Defaults to `300`.
+   */
+  timeout?: number;
+
+  /**
+   * Optional handler to open the authorization URL, for example in the default browser.
+   *
+   * The default handler prints the URL in the console.
+   */
+  openURL?: (url: string) => void | Promise<void>;
+
+  /**
+   * Optional HTML page shown to the user after a successful authentication.
+   */
+  successPage?: string;
+
+  /**
+   * Optional HTML page shown to the user after a failed authentication.
+   */
+  errorPage?: string;
+}
+
+/**
+ * Authenticate a user from a NodeJS desktop or CLI app
+ * using a temporary HTTP server on the loopback interface as redirect URI.
+ *
+ * Under the hood, it automatically handles
+ * the [PKCE code challenge](https://docs.fief.dev/going-further/pkce/),
+ * the OpenID Connect nonce and the `state` check.
+ *
+ * **The redirect URI, like `http://127.0.0.1/callback`, should be allowed on your Fief client.**
+ *
+ * @param parameters - The authentication parameters.
+ *
+ * @returns A token response and user information.
+ * @throws {@link FiefLoopbackError} if the authentication failed.
+ * @throws {@link FiefLoopbackTimeoutError} if the user didn't authenticate in time.
+ *
+ * @example
+ * ```ts
+ * const fief = require('@fief/fief');
+ * const fiefLoopback = require('@fief/fief/loopback');
+ * const open = require('open');
+ *
+ * const fiefClient = new fief.Fief({
+ *     baseURL: 'https://example.fief.dev',
+ *     clientId: 'YOUR_CLIENT_ID',
+ * });
+ *
+ * const [tokens, userinfo] = await fiefLoopback.loopbackLogin({
+ *     client: fiefClient,
+ *     openURL: (url) => open(url),
+ * });
+ * ```
+ */
+export const loopbackLogin = async (
+  parameters: LoopbackLoginParameters,
+): Promise<[FiefTokenResponse, FiefUserInfo]> => {
+  const {
+    client,
+    scope,
+    lang,
+    extrasParams,
+  } = parameters;
+  const host = parameters.host ? parameters.host : '127.0.0.1';
+  const port = parameters.port ? parameters.port : 0;
+  const callbackPath = parameters.callbackPath ? parameters.callbackPath : '/callback';
+  const timeout = parameters.timeout !== undefined ? parameters.timeout : 300;
+  const openURL = parameters.openURL ? parameters.openURL : defaultOpenURL;
+  const successPage = parameters.successPage ? parameters.successPage : defaultSuccessPage;
+  const errorPage = parameters.errorPage ? parameters.errorPage : defaultErrorPage;
+
+  const crypto = new NodeJSCryptoHelper();
+  const codeVerifier = await crypto.generateCodeVerifier();
+  const codeChallenge = await crypto.getCodeChallenge(codeVerifier, 'S256');
+  const nonce = await crypto.generateNonce();
+  const state = await crypto.generateNonce();
+
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  // IPv6 addresses are enclosed in brackets in URLs
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+  const redirectURI = `http://${urlHost}:${(server.address() as AddressInfo).port}${callbackPath}`;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const authURL = await client.getAuthURL({
+      redirectURI,
+      scope: scope || ['openid'],
+      state,
+      codeChallenge,
+      codeChallengeMethod: 'S256',
+      nonce,
+      ...lang ? { lang } : {},
+      ...extrasParams ? { extrasParams } : {},
+    });
+
+    const result = new Promise<[FiefTokenResponse, FiefUserInfo]>((resolve, reject) => {
+      timeoutId = setTimeout(() => reject(new FiefLoopbackTimeoutError()), timeout * 1000);
+
+      const sendPage = (res: ServerResponse, status: number, page: string) => {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(page);
+      };
+
+      server.on('request', async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', redirectURI);
+        if (url.pathname !== callbackPath) {
+          res.writeHead(404, { Connection: 'close' });
+          res.end();
+          return;
+        }
+
+        // Requests not coming from the authorization flow
+        // shouldn't abort the authentication, ignore them
+        if (url.searchParams.get('state') !== state) {
+          sendPage(res, 400, errorPage);
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        if (error !== null) {
+          sendPage(res, 400, errorPage);
+          reject(new FiefLoopbackError(error, url.searchParams.get('error_description')));
+          return;
+        }
+        if (code === null) {
+          sendPage(res, 400, errorPage);
+          reject(new FiefLoopbackError('missing_code'));
+          return;
+        }
+
+        try {
+          const response = await client.authCallback(code, redirectURI, codeVerifier, nonce);
+          sendPage(res, 200, successPage);
+          resolve(response);
+        } catch (err) {
+          sendPage(res, 500, errorPage);
+          reject(err);
+        }
+      });
+    });
+
+    const [response] = await Promise.all([result, openURL(authURL)]);
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+    server.close();
+  }
+};
@@ -66,13 +66,18 @@ const validateAccessTokenMock = jest.fn(() => accessTokenInfo);
 
 const userInfoMock = jest.fn(() => ({ sub: userId }));
 
+const getAuthURLMock = jest.fn(() => 'https://bretagne.fief.dev/authorize');
+
+const revokeTokenMock = jest.fn();
+
 // @ts-ignore
 const fiefMock = jest.fn<Fief, any>(() => ({
-  getAuthURL: () => 'https://bretagne.fief.dev/authorize',
+  getAuthURL: getAuthURLMock,
   getLogoutURL: () => 'https://bretagne.fief.dev/logout',
   authCallback: authCallbackMock,
   validateAccessToken: validateAccessTokenMock,
   userinfo: userInfoMock,
+  revokeToken: revokeTokenMock,
 }));
 
 const fiefAuth = new FiefAuth({
@@ -97,6 +102,9 @@ const getMockNextAPIHandler = (): any => jest.fn((req: NextApiRequest, res: Next
 beforeEach(async () => {
   await userInfoCache.clear();
   userInfoMock.mockClear();
+  getAuthURLMock.mockClear();
+  authCallbackMock.mockClear();
+  revokeTokenMock.mockReset();
 });
 
 describe('middleware', () => {
@@ -139,11 +147,37 @@ describe('middleware', () => {
       expect(response.status).toBe(307);
       expect(response.headers.get('Location')).toEqual('https://bretagne.fief.dev/authorize');
     });
+
+    it('should generate a nonce and set it in cookie', async () => {
+      const request = new NextRequest('http://localhost:3000/login');
+      const response = await middleware(request);
+
+      const nonce = response.cookies.get('fief_nonce')?.value;
+      expect(nonce).toBeDefined();
+      expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ nonce }));
+    });
+
+    it('should use pushed authorization request if enabled', async () => {
+      const fiefAuthPushed = new FiefAuth({
+        client: fiefMock(),
+        sessionCookieName: 'user_session',
+        redirectURI: 'http://localhost:3000/auth-callback',
+        logoutRedirectURI: 'http://localhost:3000',
+        pushedAuthorizationRequest: true,
+      });
+      const middlewarePushed = fiefAuthPushed.middleware([]);
+
+      const request = new NextRequest('http://localhost:3000/login');
+      await middlewarePushed(request);
+
+      expect(getAuthURLMock).toHaveBeenCalledWith(expect.objectContaining({ pushed: true }));
+    });
   });
 
   describe('callback', () => {
     it('should handle authentication callback and redirect to default if no returnTo cookie', async () => {
       const request = new NextRequest('http://localhost:3000/auth-callback');
+      request.cookies.set('fief_nonce', 'NONCE');
       const response = await middleware(request);
 
       expect(response.status).toBe(307);
@@ -154,6 +188,7 @@ describe('middleware', () => {
 
     it('should handle authentication callback and redirect to page set in returnTo cookie', async () => {
       const request = new NextRequest('http://localhost:3000/auth-callback');
+      request.cookies.set('fief_nonce', 'NONCE');
       request.cookies.set('return_to', '/return-to');
       const response = await middleware(request);
 
@@ -162,6 +197,24 @@ describe('middleware', () => {
 
       expect(response.cookies.get('user_session')?.value).toEqual('ACCESS_TOKEN');
     });
+
+    it('should pass the nonce set in cookie and clear it', async () => {
+      const request = new NextRequest('http://localhost:3000/auth-callback?code=CODE');
+      request.cookies.set('fief_nonce', 'NONCE');
+      const response = await middleware(request);
+
+      expect(authCallbackMock).toHaveBeenCalledWith('CODE', 'http://localhost:3000/auth-callback', undefined, 'NONCE');
+      expect(response.cookies.get('fief_nonce')?.value).toEqual('');
+    });
+
+    it('should reject the callback if the nonce cookie is missing', async () => {
+      const request = new NextRequest('http://localhost:3000/auth-callback?code=CODE');
+      const response = await middleware(request);
+
+      expect(response.status).toBe(400);
+      expect(authCallbackMock).not.toHaveBeenCalled();
+      expect(response.cookies.get('user_session')).toBeUndefined();
+    });
   });
 
   describe('logout', () => {
@@ -183,6 +236,17 @@ describe('middleware', () => {
 
       expect(response.cookies.get('user_session')?.value).toEqual('');
     });
+
+    it('should revoke the access token in session cookie', async () => {
+      const request = new NextRequest('http://localhost:3000/logout');
+      request.cookies.set('user_session', 'ACCESS_TOKEN');
+      revokeTokenMock.mockRejectedValueOnce(new Error() as never);
+      const response = await middleware(request);
+
+      expect(revokeTokenMock).toHaveBeenCalledWith('ACCESS_TOKEN', 'access_token');
+      expect(response.status).toBe(307);
+      expect(response.cookies.get('user_session')?.value).toEqual('');
+    });
   });
 
   describe('authentication', () => {
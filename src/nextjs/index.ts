@@ -11,8 +11,10 @@ import { pathToRegexp } from 'path-to-regexp';
 import {
   Fief,
   FiefAccessTokenInfo,
+  FiefUserFields,
   FiefUserInfo,
 } from '../client';
+import { getCrypto, ICryptoHelper } from '../crypto';
 import {
   AuthenticateRequestParameters,
   AuthenticateRequestResult,
@@ -31,19 +33,19 @@ const defaultAPIForbiddenResponse = async (req: NextApiRequest, res: NextApiResp
   res.status(403).send('Forbidden');
 };
 
-type FiefNextApiHandler<T> = (
-  req: NextApiRequest & AuthenticateRequestResult,
+type FiefNextApiHandler<T, F extends FiefUserFields = FiefUserFields> = (
+  req: NextApiRequest & AuthenticateRequestResult<F>,
   res: NextApiResponse<T>,
 ) => unknown | Promise<unknown>;
 
 /**
  * Parameters to instantiate a {@link FiefAuth} helper class.
  */
-export interface FiefAuthParameters {
+export interface FiefAuthParameters<F extends FiefUserFields = FiefUserFields> {
   /**
    * Instance of a {@link Fief} client.
    */
-  client: Fief;
+  client: Fief<F>;
 
   /**
    * Name of the cookie that will keep the session.
@@ -99,6 +101,26 @@ export interface FiefAuthParameters {
    */
   returnToCookieName?: string;
 
+  /**
+   * Name of the cookie that will keep the OpenID Connect nonce
+   * generated for the authorization request.
+   *
+   * It's checked against the ID token during the authentication callback.
+   *
+   * Defaults to `fief_nonce`.
+   */
+  nonceCookieName?: string;
+
+  /**
+   * Whether to send the authorization parameters to the Fief server
+   * with a [Pushed Authorization Request](https://www.rfc-editor.org/rfc/rfc9126).
+   *
+   * If the Fief server doesn't support it, a classic authorization URL is used.
+   *
+   * Defaults to `false`.
+   */
+  pushedAuthorizationRequest?: boolean;
+
   /**
    * Path where the user will be redirected by default
    * after a successfull authentication if there is
@@ -121,7 +143,7 @@ export interface FiefAuthParameters {
   /**
    * An instance of a {@link IUserInfoCache} class.
    */
-  userInfoCache?: IUserInfoCache;
+  userInfoCache?: IUserInfoCache<F>;
 
   /**
    * Optional API handler for unauthorized response.
@@ -193,12 +215,12 @@ export interface PathConfig {
  * });
  * ```
  */
-class FiefAuth {
-  private client: Fief;
+class FiefAuth<F extends FiefUserFields = FiefUserFields> {
+  private client: Fief<F>;
 
-  private fiefAuth: FiefAuthServer<IncomingMessage>;
+  private fiefAuth: FiefAuthServer<IncomingMessage, F>;
 
-  private fiefAuthEdge: FiefAuthServer<NextRequest>;
+  private fiefAuthEdge: FiefAuthServer<NextRequest, F>;
 
   private sessionCookieName: string;
 
@@ -214,6 +236,10 @@ class FiefAuth {
 
   private returnToCookieName: string;
 
+  private nonceCookieName: string;
+
+  private pushedAuthorizationRequest: boolean;
+
   private returnToDefault: string;
 
   private forbiddenPath: string;
@@ -226,7 +252,9 @@ class FiefAuth {
 
   private accessTokenHeaderName: string;
 
-  constructor(parameters: FiefAuthParameters) {
+  private crypto: ICryptoHelper;
+
+  constructor(parameters: FiefAuthParameters<F>) {
     this.client = parameters.client;
 
     this.fiefAuth = new FiefAuthServer(
@@ -250,6 +278,11 @@ class FiefAuth {
     this.logoutPath = parameters.logoutPath ? parameters.logoutPath : '/logout';
 
     this.returnToCookieName = parameters.returnToCookieName ? parameters.returnToCookieName : 'return_to';
+    this.nonceCookieName = parameters.nonceCookieName ? parameters.nonceCookieName : 'fief_nonce';
+    this.pushedAuthorizationRequest = parameters.pushedAuthorizationRequest !== undefined
+      ? parameters.pushedAuthorizationRequest
+      : false
+    ;
     this.returnToDefault = parameters.returnToDefault ? parameters.returnToDefault : '/';
 
     this.forbiddenPath = parameters.forbiddenPath ? parameters.forbiddenPath : '/forbidden';
@@ -265,6 +298,8 @@ class FiefAuth {
 
     this.userIdHeaderName = parameters.userIdHeaderName ? parameters.userIdHeaderName : 'X-FiefAuth-User-Id';
     this.accessTokenHeaderName = parameters.accessTokenHeaderName ? parameters.accessTokenHeaderName : 'X-FiefAuth-Access-Token';
+
+    this.crypto = getCrypto();
   }
 
   /**
@@ -327,8 +362,7 @@ class FiefAuth {
         if (isPrefetchRequest) {
           return new NextResponse(null, { status: 204 });
         }
-        const authURL = await this.client.getAuthURL({ redirectURI: this.redirectURI, scope: ['openid'] });
-        const response = NextResponse.redirect(authURL);
+        const response = await this.getLoginRedirectResponse();
         const returnTo = request.nextUrl.searchParams.get('return_to');
         if (returnTo) {
           response.cookies.set(this.returnToCookieName, returnTo);
@@ -342,7 +376,17 @@ class FiefAuth {
           return new NextResponse(null, { status: 204 });
         }
         const code = request.nextUrl.searchParams.get('code');
-        const [tokens] = await this.client.authCallback(code as string, this.redirectURI);
+        const nonce = request.cookies.get(this.nonceCookieName)?.value;
+        // Without the nonce, the ID token can't be checked against replay
+        if (!nonce) {
+          return new NextResponse('Missing nonce cookie', { status: 400 });
+        }
+        const [tokens] = await this.client.authCallback(
+          code as string,
+          this.redirectURI,
+          undefined,
+          nonce,
+        );
 
         const returnTo = request.cookies.get(this.returnToCookieName)?.value;
         const redirectURL = new URL(returnTo || this.returnToDefault, request.url);
@@ -357,6 +401,7 @@ class FiefAuth {
           },
         );
         response.cookies.set(this.returnToCookieName, '', { maxAge: 0 });
+        response.cookies.set(this.nonceCookieName, '', { maxAge: 0 });
 
         return response;
       }
@@ -366,6 +411,15 @@ class FiefAuth {
         if (isPrefetchRequest) {
           return new NextResponse(null, { status: 204 });
         }
+        const accessToken = request.cookies.get(this.sessionCookieName)?.value;
+        if (accessToken) {
+          try {
+            await this.client.revokeToken(accessToken, 'access_token');
+          } catch (err) {
+            // The session cookie is cleared anyway, don't prevent the user from logging out.
+          }
+        }
+
         const logoutURL = await this.client.getLogoutURL({ redirectURI: this.logoutRedirectURI });
         const response = NextResponse.redirect(logoutURL);
         response.cookies.set(this.sessionCookieName, '', { maxAge: 0 });
@@ -387,9 +441,7 @@ class FiefAuth {
           return NextResponse.next({ request: { headers: requestHeaders } });
         } catch (err) {
           if (err instanceof FiefAuthUnauthorized) {
-            const authURL = await this.client.getAuthURL({ redirectURI: this.redirectURI, scope: ['openid'] });
-
-            const response = NextResponse.redirect(authURL);
+            const response = await this.getLoginRedirectResponse();
             response.cookies.set(this.returnToCookieName, `${request.nextUrl.pathname}${request.nextUrl.search}`);
 
             return response;
@@ -451,12 +503,12 @@ class FiefAuth {
    * ```
    */
   public authenticated<T>(
-    route: FiefNextApiHandler<T>,
+    route: FiefNextApiHandler<T, F>,
     authenticatedParameters: AuthenticateRequestParameters = {},
-  ): FiefNextApiHandler<T> {
+  ): FiefNextApiHandler<T, F> {
     const authenticate = this.fiefAuth.authenticate(authenticatedParameters);
-    return async (req: NextApiRequest & AuthenticateRequestResult, res: NextApiResponse) => {
-      let user: FiefUserInfo | null = null;
+    return async (req: NextApiRequest & AuthenticateRequestResult<F>, res: NextApiResponse) => {
+      let user: FiefUserInfo<F> | null = null;
       let accessTokenInfo: FiefAccessTokenInfo | null = null;
       try {
         const result = await authenticate(req);
@@ -477,6 +529,19 @@ class FiefAuth {
     };
   }
 
+  private async getLoginRedirectResponse(): Promise<NextResponse> {
+    const nonce = await this.crypto.generateNonce();
+    const authURL = await this.client.getAuthURL({
+      redirectURI: this.redirectURI,
+      scope: ['openid'],
+      nonce,
+      pushed: this.pushedAuthorizationRequest,
+    });
+    const response = NextResponse.redirect(authURL);
+    response.cookies.set(this.nonceCookieName, nonce, { httpOnly: true });
+    return response;
+  }
+
   /**
    * Return an API route to get the {@link FiefUserInfo} and {@link FiefAccessTokenInfo}
    * of the currently authenticated user.
@@ -493,9 +558,9 @@ class FiefAuth {
    * ```
    */
   public currentUser(): FiefNextApiHandler<{
-    userinfo: FiefUserInfo | null,
+    userinfo: FiefUserInfo<F> | null,
     access_token_info: FiefAccessTokenInfo | null,
-  }> {
+  }, F> {
     return async (req, res) => {
       const refresh = req.query.refresh === 'true';
       return this.authenticated(
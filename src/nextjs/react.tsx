@@ -7,7 +7,7 @@ import React, {
   useReducer,
 } from 'react';
 
-import { FiefAccessTokenInfo, FiefUserInfo } from '../client';
+import { FiefAccessTokenInfo, FiefUserFields, FiefUserInfo } from '../client';
 
 export interface FiefAuthState {
   userinfo: FiefUserInfo | null;
@@ -148,16 +148,18 @@ const FiefAuthProvider: React.FunctionComponent<FiefAuthProviderProps> = (props:
 /**
  * Return the user information object available in session, or `null` if no current session.
  *
+ * The user fields can be typed with a type parameter.
+ *
  * @returns The user information, or null if not available.
  *
  * @example
  * ```tsx
- * const userinfo = useFiefUserinfo();
+ * const userinfo = useFiefUserinfo<UserFields>();
  * ````
  */
-const useFiefUserinfo = (): FiefUserInfo | null => {
+const useFiefUserinfo = <F extends FiefUserFields = FiefUserFields>(): FiefUserInfo<F> | null => {
   const { state } = useContext(FiefAuthContext);
-  return state.userinfo;
+  return state.userinfo as FiefUserInfo<F> | null;
 };
 
 /**
@@ -1,14 +1,30 @@
-import { createContext } from 'react';
+import { Context, createContext } from 'react';
 
 import type { FiefAuth } from '../browser';
+import type { FiefUserFields } from '../client';
 import { FiefAuthState } from './storage';
 
 const stub = (): never => {
   throw new Error('You forgot to wrap your component in <FiefAuthProvider>.');
 };
 
+/**
+ * Value of the {@link FiefAuthContext}.
+ */
+export interface FiefAuthContextValue<F extends FiefUserFields = FiefUserFields> {
+  auth: FiefAuth<F>;
+  state: FiefAuthState;
+}
+
 /**
  * Context storing the {@link index.browser.FiefAuth} helper and the authentication state.
  */
 // @ts-ignore
-export const FiefAuthContext = createContext<{ auth: FiefAuth, state: FiefAuthState }>(stub);
+export const FiefAuthContext = createContext<FiefAuthContextValue>(stub);
+
+/**
+ * Return the {@link FiefAuthContext}, typed with the user fields of the application.
+ */
+export const getFiefAuthContext = <
+  F extends FiefUserFields = FiefUserFields,
+>(): Context<FiefAuthContextValue<F>> => FiefAuthContext as Context<FiefAuthContextValue<F>>;
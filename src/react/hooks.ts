@@ -1,8 +1,8 @@
 import { useContext } from 'react';
 
-import type { FiefAuth } from '../browser';
-import type { FiefTokenResponse, FiefUserInfo } from '../client';
-import { FiefAuthContext } from './context';
+import type { FiefAuth, FiefAuthTokenInfo } from '../browser';
+import type { FiefUserFields, FiefUserInfo } from '../client';
+import { FiefAuthContext, getFiefAuthContext } from './context';
 
 /**
  * Return an instance of the {@link index.browser.FiefAuth} browser helper.
@@ -11,27 +11,32 @@ import { FiefAuthContext } from './context';
  *
  * @example
  * ```tsx
- * const fiefAuth = useFiefAuth();
+ * const fiefAuth = useFiefAuth<UserFields>();
  * ```
  */
-export const useFiefAuth = (): FiefAuth => {
-  const { auth } = useContext(FiefAuthContext);
+export const useFiefAuth = <F extends FiefUserFields = FiefUserFields>(): FiefAuth<F> => {
+  const { auth } = useContext(getFiefAuthContext<F>());
   return auth;
 };
 
 /**
  * Return the user information object available in session, or `null` if no current session.
  *
+ * The user fields can be typed with a type parameter.
+ * Pass a `userFieldsValidator` to the {@link FiefAuthProvider} to check them at runtime.
+ *
  * @returns The user information, or null if not available.
  *
  * @example
  * ```tsx
- * const userinfo = useFiefUserinfo();
+ * const userinfo = useFiefUserinfo<UserFields>();
  * ````
  */
-export const useFiefUserinfo = (): FiefUserInfo | null => {
+export const useFiefUserinfo = <
+  F extends FiefUserFields = FiefUserFields,
+>(): FiefUserInfo<F> | null => {
   const { state } = useContext(FiefAuthContext);
-  return state.userinfo;
+  return state.userinfo as FiefUserInfo<F> | null;
 };
 
 /**
@@ -44,7 +49,7 @@ export const useFiefUserinfo = (): FiefUserInfo | null => {
  * const tokenInfo = useFiefTokenInfo();
  * ```
  */
-export const useFiefTokenInfo = (): FiefTokenResponse | null => {
+export const useFiefTokenInfo = (): FiefAuthTokenInfo | null => {
   const { state } = useContext(FiefAuthContext);
   return state.tokenInfo;
 };
@@ -4,7 +4,7 @@
  * @module
  */
 
-import { FiefAuthContext } from './context';
+import { FiefAuthContext, FiefAuthContextValue } from './context';
 import {
   useFiefAuth,
   useFiefIsAuthenticated,
@@ -16,6 +16,7 @@ import { FiefAuthState } from './storage';
 
 export {
   FiefAuthContext,
+  FiefAuthContextValue,
   FiefAuthProvider,
   FiefAuthProviderProps,
   FiefAuthState,
@@ -1,8 +1,13 @@
 import * as React from 'react';
-import { ReactNode, useEffect, useMemo } from 'react';
+import {
+  ReactNode,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 
 import { FiefAuth } from '../browser';
-import { Fief, FiefParameters } from '../client';
+import { Fief, FiefParameters, FiefUserFields } from '../client';
 import { FiefAuthContext } from './context';
 import { FiefReactAuthStorage, saveStateToStorage, useAuthStorageReducer } from './storage';
 
@@ -37,14 +42,27 @@ export const FiefAuthProvider: React.FunctionComponent<FiefAuthProviderProps> =
     clientId,
     clientSecret,
     encryptionKey,
+    userFieldsValidator,
   } = props;
 
+  // The validator is often an inline function: keep the latest one in a ref,
+  // so the client isn't rebuilt on every render.
+  const userFieldsValidatorRef = useRef(userFieldsValidator);
+  userFieldsValidatorRef.current = userFieldsValidator;
+  const hasUserFieldsValidator = userFieldsValidator !== undefined;
+
   const fief = useMemo(() => new Fief({
     baseURL,
     clientId,
     clientSecret,
     encryptionKey,
-  }), [baseURL, clientId, clientSecret, encryptionKey]);
+    ...hasUserFieldsValidator ? {
+      userFieldsValidator: (fields: unknown) => {
+        const validator = userFieldsValidatorRef.current;
+        return validator !== undefined ? validator(fields) : fields as FiefUserFields;
+      },
+    } : {},
+  }), [baseURL, clientId, clientSecret, encryptionKey, hasUserFieldsValidator]);
 
   const [state, dispatch] = useAuthStorageReducer();
   const storage = useMemo(() => new FiefReactAuthStorage(state, dispatch), [state, dispatch]);
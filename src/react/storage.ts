@@ -1,12 +1,12 @@
 import * as React from 'react';
 import { useReducer } from 'react';
 
-import { IFiefAuthStorage } from '../browser';
-import { FiefTokenResponse, FiefUserInfo } from '../client';
+import { FiefAuthorizationState, FiefAuthTokenInfo, IFiefAuthStorage } from '../browser';
+import { FiefUserInfo } from '../client';
 
 export interface FiefAuthState {
   userinfo: FiefUserInfo | null;
-  tokenInfo: FiefTokenResponse | null;
+  tokenInfo: FiefAuthTokenInfo | null;
 }
 
 interface LoadFromStorageAuthReducerAction {
@@ -25,7 +25,7 @@ interface ClearUserInfoAuthReducerAction {
 
 interface SetTokenInfoAuthReducerAction {
   type: 'setTokenInfo';
-  value: FiefTokenResponse;
+  value: FiefAuthTokenInfo;
 }
 
 interface ClearTokenInfoAuthReducerAction {
@@ -86,6 +86,10 @@ export class FiefReactAuthStorage implements IFiefAuthStorage {
 
   private static readonly CODE_VERIFIER_STORAGE_KEY = 'fief-codeverifier';
 
+  private static readonly NONCE_STORAGE_KEY = 'fief-nonce';
+
+  private static readonly STATE_STORAGE_KEY = 'fief-state';
+
   constructor(state: FiefAuthState, dispatch: React.Dispatch<AuthReducerAction>) {
     this.state = state;
     this.dispatch = dispatch;
@@ -104,11 +108,11 @@ export class FiefReactAuthStorage implements IFiefAuthStorage {
     this.dispatch({ type: 'clearUserinfo' });
   }
 
-  public getTokenInfo(): FiefTokenResponse | null {
+  public getTokenInfo(): FiefAuthTokenInfo | null {
     return this.state.tokenInfo || null;
   }
 
-  public setTokenInfo(tokenInfo: FiefTokenResponse): void {
+  public setTokenInfo(tokenInfo: FiefAuthTokenInfo): void {
     this.dispatch({ type: 'setTokenInfo', value: tokenInfo });
   }
 
@@ -131,4 +135,36 @@ export class FiefReactAuthStorage implements IFiefAuthStorage {
   public clearCodeVerifier(): void {
     this.sessionStorage.removeItem(FiefReactAuthStorage.CODE_VERIFIER_STORAGE_KEY);
   }
+
+  public getNonce(): string | null {
+    const value = this.sessionStorage.getItem(FiefReactAuthStorage.NONCE_STORAGE_KEY);
+    if (!value) {
+      return null;
+    }
+    return value;
+  }
+
+  public setNonce(nonce: string): void {
+    this.sessionStorage.setItem(FiefReactAuthStorage.NONCE_STORAGE_KEY, nonce);
+  }
+
+  public clearNonce(): void {
+    this.sessionStorage.removeItem(FiefReactAuthStorage.NONCE_STORAGE_KEY);
+  }
+
+  public getState(): FiefAuthorizationState | null {
+    const value = this.sessionStorage.getItem(FiefReactAuthStorage.STATE_STORAGE_KEY);
+    if (!value) {
+      return null;
+    }
+    return JSON.parse(value);
+  }
+
+  public setState(state: FiefAuthorizationState): void {
+    this.sessionStorage.setItem(FiefReactAuthStorage.STATE_STORAGE_KEY, JSON.stringify(state));
+  }
+
+  public clearState(): void {
+    this.sessionStorage.removeItem(FiefReactAuthStorage.STATE_STORAGE_KEY);
+  }
 }
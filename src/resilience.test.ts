@@ -0,0 +1,95 @@
+import { CircuitBreaker, FiefRequestEvent, getRetryDelay } from './resilience';
+
+describe('getRetryDelay', () => {
+  it.each([
+    [0, 0.2],
+    [1, 0.4],
+    [2, 0.8],
+    [10, 5],
+  ])('should return a delay up to the capped exponential backoff (attempt %d)', (attempt, maxExpected) => {
+    for (let i = 0; i < 20; i += 1) {
+      const delay = getRetryDelay(attempt, 0.2, 5);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(maxExpected);
+    }
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let events: FiefRequestEvent[];
+  let circuitBreaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    events = [];
+    circuitBreaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeout: 10 },
+      (event) => events.push(event),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures', () => {
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.allowRequest()).toBe(true);
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.allowRequest()).toBe(false);
+    expect(events).toEqual([{ type: 'circuitOpen', failures: 2 }]);
+  });
+
+  it('should reset the failures count on success', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordSuccess();
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(events).toEqual([]);
+  });
+
+  it('should allow a single trial request after the reset timeout', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+
+    jest.advanceTimersByTime(10000);
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(circuitBreaker.allowRequest()).toBe(false);
+    expect(events).toContainEqual({ type: 'circuitHalfOpen' });
+  });
+
+  it('should close if the trial request succeeds', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+    jest.advanceTimersByTime(10000);
+    circuitBreaker.allowRequest();
+
+    circuitBreaker.recordSuccess();
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(events[events.length - 1]).toEqual({ type: 'circuitClose' });
+  });
+
+  it('should allow a new trial request if the trial request is released', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+    jest.advanceTimersByTime(10000);
+    circuitBreaker.allowRequest();
+
+    circuitBreaker.releaseTrial();
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(circuitBreaker.allowRequest()).toBe(false);
+  });
+
+  it('should open again if the trial request fails', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+    jest.advanceTimersByTime(10000);
+    circuitBreaker.allowRequest();
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.allowRequest()).toBe(false);
+    expect(events.filter((event) => event.type === 'circuitOpen')).toHaveLength(2);
+  });
+});
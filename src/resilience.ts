@@ -0,0 +1,169 @@
+/**
+ * Policy to retry the idempotent requests to the Fief server
+ * after a network error or a server error.
+ */
+export interface FiefRetryPolicy {
+  /**
+   * Maximum number of retries after the first attempt.
+   *
+   * Defaults to `0`, i.e. no retry.
+   */
+  maxRetries?: number;
+
+  /**
+   * Base number of seconds to wait before the first retry.
+   * It's doubled on each subsequent retry.
+   *
+   * Defaults to `0.2`.
+   */
+  initialDelay?: number;
+
+  /**
+   * Maximum number of seconds to wait between two attempts.
+   *
+   * Defaults to `5`.
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Parameters of the circuit breaker protecting the Fief server.
+ *
+ * After `failureThreshold` consecutive failed requests, the circuit opens:
+ * the requests fail immediately during `resetTimeout` seconds.
+ * Then, a single trial request is allowed to check if the Fief server is back.
+ */
+export interface FiefCircuitBreakerParameters {
+  /**
+   * Number of consecutive failed requests after which the circuit opens.
+   *
+   * Defaults to `5`.
+   */
+  failureThreshold?: number;
+
+  /**
+   * Number of seconds during which the circuit stays open.
+   *
+   * Defaults to `30`.
+   */
+  resetTimeout?: number;
+}
+
+/**
+ * Event emitted about the requests to the Fief server.
+ *
+ * * `retry`: a failed request is going to be retried after `delay` seconds.
+ * * `circuitOpen`: the circuit breaker opened after too many failures.
+ * * `circuitHalfOpen`: the circuit breaker allows a trial request.
+ * * `circuitClose`: the Fief server is back and the circuit breaker closed.
+ * * `circuitRejected`: a request was rejected because the circuit breaker is open.
+ */
+export type FiefRequestEvent = (
+  { type: 'retry', url: string, attempt: number, delay: number, status?: number, error?: unknown } |
+  { type: 'circuitOpen', failures: number } |
+  { type: 'circuitHalfOpen' } |
+  { type: 'circuitClose' } |
+  { type: 'circuitRejected', url: string }
+);
+
+/**
+ * Return the number of seconds to wait before a retry,
+ * using exponential backoff with full jitter.
+ *
+ * @param attempt - Number of the retry, starting at `0`.
+ * @param initialDelay - Base number of seconds to wait.
+ * @param maxDelay - Maximum number of seconds to wait.
+ *
+ * @returns The number of seconds to wait.
+ */
+export const getRetryDelay = (attempt: number, initialDelay: number, maxDelay: number): number => (
+  Math.random() * Math.min(maxDelay, initialDelay * 2 ** attempt)
+);
+
+/**
+ * Circuit breaker keeping track of the failed requests to the Fief server.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+
+  private resetTimeout: number;
+
+  private onEvent: (event: FiefRequestEvent) => void;
+
+  private state: 'closed' | 'open' | 'halfOpen';
+
+  private failures: number;
+
+  private openedAt: number;
+
+  private trialInProgress: boolean;
+
+  constructor(
+    parameters: FiefCircuitBreakerParameters,
+    onEvent: (event: FiefRequestEvent) => void,
+  ) {
+    this.failureThreshold = parameters.failureThreshold !== undefined
+      ? parameters.failureThreshold
+      : 5
+    ;
+    this.resetTimeout = parameters.resetTimeout !== undefined ? parameters.resetTimeout : 30;
+    this.onEvent = onEvent;
+
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = 0;
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Return whether a request can be sent to the Fief server.
+   *
+   * When the reset timeout of an open circuit is elapsed,
+   * only one trial request is allowed until its result is recorded.
+   */
+  public allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeout * 1000) {
+      this.state = 'halfOpen';
+      this.trialInProgress = false;
+      this.onEvent({ type: 'circuitHalfOpen' });
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'halfOpen' && !this.trialInProgress) {
+      this.trialInProgress = true;
+      return true;
+    }
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.state = 'closed';
+      this.trialInProgress = false;
+      this.onEvent({ type: 'circuitClose' });
+    }
+  }
+
+  /**
+   * Allow another trial request when the current one was cancelled
+   * without result.
+   */
+  public releaseTrial(): void {
+    this.trialInProgress = false;
+  }
+
+  public recordFailure(): void {
+    this.failures += 1;
+    if (this.state === 'halfOpen' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        this.onEvent({ type: 'circuitOpen', failures: this.failures });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.trialInProgress = false;
+    }
+  }
+}
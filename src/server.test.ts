@@ -1,6 +1,6 @@
 import httpMocks from 'node-mocks-http';
 
-import { authorizationSchemeGetter, cookieGetter } from './server';
+import { authorizationSchemeGetter, cookieGetter, dpopGetter } from './server';
 
 describe('authorizationSchemeGetter', () => {
   const tokenGetter = authorizationSchemeGetter('bearer');
@@ -51,3 +51,46 @@ describe('cookieGetter', () => {
     expect(token).toEqual('TOKEN');
   });
 });
+
+describe('dpopGetter', () => {
+  it('should return null if no DPoP header', async () => {
+    const request = httpMocks.createRequest({ method: 'GET', url: '/castles', headers: { host: 'api.bretagne.duchy' } });
+    const dpop = await dpopGetter()(request);
+    expect(dpop).toBeNull();
+  });
+
+  it('should return null if the token is not sent with the DPoP scheme', async () => {
+    const request = httpMocks.createRequest({
+      method: 'GET',
+      url: '/castles',
+      headers: { host: 'api.bretagne.duchy', authorization: 'Bearer TOKEN', dpop: 'PROOF' },
+    });
+    const dpop = await dpopGetter()(request);
+    expect(dpop).toBeNull();
+  });
+
+  it('should return the proof and the request URL guessed from headers', async () => {
+    const request = httpMocks.createRequest({
+      method: 'POST',
+      url: '/castles?foo=bar',
+      headers: {
+        host: 'api.bretagne.duchy',
+        'x-forwarded-proto': 'https',
+        authorization: 'DPoP TOKEN',
+        dpop: 'PROOF',
+      },
+    });
+    const dpop = await dpopGetter()(request);
+    expect(dpop).toEqual({ proof: 'PROOF', method: 'POST', url: 'https://api.bretagne.duchy/castles?foo=bar' });
+  });
+
+  it('should return the request URL from the base URL', async () => {
+    const request = httpMocks.createRequest({
+      method: 'GET',
+      url: '/castles',
+      headers: { host: 'localhost:3000', authorization: 'DPoP TOKEN', dpop: 'PROOF' },
+    });
+    const dpop = await dpopGetter('https://api.bretagne.duchy')(request);
+    expect(dpop?.url).toEqual('https://api.bretagne.duchy/castles');
+  });
+});
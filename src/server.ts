@@ -15,6 +15,7 @@ import {
   FiefAccessTokenMissingScope,
   FiefACR,
   FiefError,
+  FiefUserFields,
   FiefUserInfo,
 } from './client';
 
@@ -31,10 +32,39 @@ export class FiefAuthForbidden extends FiefAuthError { }
  */
 export type TokenGetter<RQ> = (req: RQ) => Promise<string | null>;
 
+/**
+ * DPoP proof of a request, with the HTTP method and URL it was sent to.
+ */
+export interface DPoPRequest {
+  /**
+   * Value of the `DPoP` header.
+   */
+  proof: string;
+
+  /**
+   * HTTP method of the request.
+   */
+  method: string;
+
+  /**
+   * Absolute URL of the request.
+   */
+  url: string;
+}
+
+/**
+ * Type of a function that can be used to retrieve the DPoP proof of a request.
+ *
+ * @param req — A NodeJS request object.
+ *
+ * @returns A {@link DPoPRequest} or `null` if the request has no DPoP proof.
+ */
+export type DPoPGetter<RQ> = (req: RQ) => Promise<DPoPRequest | null>;
+
 /**
  * Interface that should follow a class to implement cache for user data.
  */
-export interface IUserInfoCache {
+export interface IUserInfoCache<F extends FiefUserFields = FiefUserFields> {
   /**
    * Retrieve user information from cache, if available.
    *
@@ -42,7 +72,7 @@ export interface IUserInfoCache {
    *
    * @returns User information or `null`.
    */
-  get(id: string): Promise<FiefUserInfo | null>;
+  get(id: string): Promise<FiefUserInfo<F> | null>;
 
   /**
    * Store user information in cache.
@@ -51,7 +81,7 @@ export interface IUserInfoCache {
    * @param userinfo - The user information to store.
    *
    */
-  set(id: string, userinfo: FiefUserInfo): Promise<void>;
+  set(id: string, userinfo: FiefUserInfo<F>): Promise<void>;
 
   /**
    * Remove user information from cache.
@@ -103,12 +133,28 @@ export interface AuthenticateRequestParameters {
    * Otherwise, the cache will be used.
    */
   refresh?: boolean;
+
+  /**
+   * If `true`, the access token will be checked by the Fief server through token introspection,
+   * instead of a local signature verification.
+   *
+   * It's slower, but a revoked token or a token of a disabled user is rejected immediately.
+   * Useful for high-security routes.
+   */
+  introspect?: boolean;
+
+  /**
+   * Number of seconds during which an introspection result is cached.
+   *
+   * Defaults to `0`, i.e. no cache.
+   */
+  introspectionCacheTTL?: number;
 }
 
 /**
  * Data returned after a request has been successfully authenticated.
  */
-export interface AuthenticateRequestResult {
+export interface AuthenticateRequestResult<F extends FiefUserFields = FiefUserFields> {
   /**
    * Information about the current access token.
    */
@@ -117,28 +163,38 @@ export interface AuthenticateRequestResult {
   /**
    * Current user information.
    */
-  user: FiefUserInfo | null;
+  user: FiefUserInfo<F> | null;
 }
 
 /**
  * Class implementing common logic for authenticating requests in NodeJS servers.
  */
-export class FiefAuth<RQ> {
-  private client: Fief;
+export class FiefAuth<RQ, F extends FiefUserFields = FiefUserFields> {
+  private client: Fief<F>;
 
   private tokenGetter: TokenGetter<RQ>;
 
-  private userInfoCache?: IUserInfoCache;
+  private userInfoCache?: IUserInfoCache<F>;
+
+  private dpopGetter?: DPoPGetter<RQ>;
 
   /**
    * @param client - Instance of a {@link Fief} client.
    * @param tokenGetter - A {@link TokenGetter} function.
    * @param userInfoCache - An instance of a {@link IUserInfoCache} class.
+   * @param dpopGetter - A {@link DPoPGetter} function.
+   * Necessary to accept [DPoP](https://www.rfc-editor.org/rfc/rfc9449)-bound access tokens.
    */
-  constructor(client: Fief, tokenGetter: TokenGetter<RQ>, userInfoCache?: IUserInfoCache) {
+  constructor(
+    client: Fief<F>,
+    tokenGetter: TokenGetter<RQ>,
+    userInfoCache?: IUserInfoCache<F>,
+    dpopGetter?: DPoPGetter<RQ>,
+  ) {
     this.client = client;
     this.tokenGetter = tokenGetter;
     this.userInfoCache = userInfoCache;
+    this.dpopGetter = dpopGetter;
   }
 
   /**
@@ -149,13 +205,15 @@ export class FiefAuth<RQ> {
    * @returns A handler to authenticate NodeJS requests.
    */
   public authenticate(parameters: AuthenticateRequestParameters) {
-    return async (req: RQ): Promise<AuthenticateRequestResult> => {
+    return async (req: RQ): Promise<AuthenticateRequestResult<F>> => {
       const {
         optional,
         scope,
         acr,
         permissions,
         refresh,
+        introspect,
+        introspectionCacheTTL,
       } = parameters;
 
       const token = await this.tokenGetter(req);
@@ -164,15 +222,21 @@ export class FiefAuth<RQ> {
       }
 
       let accessTokenInfo: FiefAccessTokenInfo | null = null;
-      let user: FiefUserInfo | null = null;
+      let user: FiefUserInfo<F> | null = null;
 
       if (token !== null) {
         try {
+          const dpop = this.dpopGetter ? await this.dpopGetter(req) : null;
           accessTokenInfo = await this.client.validateAccessToken(
             token,
             scope,
             acr,
             permissions,
+            {
+              introspect,
+              introspectionCacheTTL,
+              ...dpop ? { dpop } : {},
+            },
           );
           if (this.userInfoCache) {
             user = await this.userInfoCache.get(accessTokenInfo.id);
@@ -253,3 +317,46 @@ export const cookieGetter = (cookieName: string): TokenGetter<IncomingMessage> =
   }
   return null;
 };
+
+/**
+ * Return a {@link DPoPGetter} function retrieving the DPoP proof
+ * from the `DPoP` header of an HTTP request.
+ *
+ * Use it with `authorizationSchemeGetter('dpop')` to accept DPoP-bound access tokens.
+ * The proof is only returned if the access token is sent with the `DPoP` authorization scheme,
+ * so a bound access token sent as a `Bearer` token is rejected.
+ *
+ * @param baseURL - Public base URL of the server, used to rebuild the URL the request was sent to.
+ * If not provided, it's guessed from the `X-Forwarded-Proto` and `Host` headers.
+ *
+ * @returns A {@link DPoPGetter} function.
+ */
+export const dpopGetter = (baseURL?: string): DPoPGetter<IncomingMessage> => async (
+  req: IncomingMessage,
+) => {
+  const { authorization, dpop: proof } = req.headers;
+  if (
+    authorization === undefined
+    || authorization.split(' ')[0].toLowerCase() !== 'dpop'
+    || typeof proof !== 'string'
+    || req.method === undefined
+    || req.url === undefined
+  ) {
+    return null;
+  }
+
+  let requestBaseURL = baseURL;
+  if (requestBaseURL === undefined) {
+    const forwardedProto = req.headers['x-forwarded-proto'];
+    const protocol = typeof forwardedProto === 'string' ? forwardedProto.split(',')[0].trim() : 'http';
+    requestBaseURL = `${protocol}://${req.headers.host}`;
+  }
+
+  // Frameworks like Express rewrite `url` inside a router mounted on a sub-path
+  const { originalUrl } = req as { originalUrl?: string };
+  return {
+    proof,
+    method: req.method,
+    url: new URL(originalUrl !== undefined ? originalUrl : req.url, requestBaseURL).toString(),
+  };
+};